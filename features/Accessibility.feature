@@ -2,4 +2,22 @@ Feature: Accessibility Compliance
 
   Scenario: Home page must meet WCAG 2.1 AA standards
     Given I am on the home page
-    Then the page should be accessible
\ No newline at end of file
+    Then the page should be accessible
+
+  Scenario: Cart page has no serious WCAG 2.1 AA violations
+    Given I am on the home page
+    When I navigate to the cart
+    Then the page should be accessible with:
+      | tags   | wcag2a, wcag2aa, wcag21aa |
+      | impact | serious                   |
+
+
+  @a11y
+  Scenario: Every page and UI state in the purchase flow is audited
+    Given the cart is empty
+    And I am on the home page
+    When I add 2 of "Koala" to the cart
+    And I navigate to the cart
+    And I change the quantity of "Koala" to 3
+    And I proceed to checkout
+    Then I should see the order confirmation
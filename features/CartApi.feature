@@ -0,0 +1,34 @@
+Feature: Cart API
+  @db
+  Scenario: Build and edit a cart through the API only
+    Given the cart is empty
+    When I add 2 of item 1 to the cart via the API
+    And I add 1 of item 2 to the cart via the API
+    And I update item 1 to quantity 3 via the API
+    And I remove item 2 from the cart via the API
+    Then the API cart should contain 3 of item 1
+    And the cart table should contain:
+      | item_id | quantity |
+      | 1       | 3        |
+
+  @db
+  Scenario: Checkout through the API empties the cart
+    Given the cart is empty
+    When I add 1 of item 1 to the cart via the API
+    And I check out via the API
+    Then the API cart should be empty
+    And the cart table should be empty
+
+  Scenario: Cart endpoint responses match their contracts
+    Given the cart is empty
+    When I add 1 of item 1 to the cart via the API
+    Then the "reset-cart" response matches its contract
+    And the "add-to-cart" response matches its contract
+    And the API cart should contain 1 of item 1
+    And the "cart" response matches its contract
+
+  # The cart contract describes the JSON view, so the HTML page breaks it
+  Scenario: A response that breaks its contract is reported without failing the call
+    Given the cart is empty
+    When I request the "cart" route via the API accepting "text/html"
+    Then the "cart" response breaks its contract
@@ -0,0 +1,36 @@
+Feature: Cart Editing
+  Background:
+    Given the cart is empty
+    And I am on the home page
+    When I add the following products to the cart:
+      | product | quantity |
+      | Koala   | 1        |
+      | Dog     | 2        |
+    And I navigate to the cart
+
+  Scenario: Change the quantity of an item
+    When I change the quantity of "Koala" to 3
+    Then the cart should show 3 of "Koala"
+    And the cart should contain the added products
+    And the cart totals should add up
+
+  Scenario: Setting the quantity to 0 removes the row
+    When I change the quantity of "Dog" to 0
+    Then "Dog" should not be in the cart
+    And I should see 1 item in the cart list
+    And the cart totals should add up
+
+  Scenario: Remove an item
+    When I remove "Koala" from the cart
+    Then "Koala" should not be in the cart
+    And the cart should contain the added products
+    And the cart totals should add up
+
+  @db
+  Scenario: Edits are persisted to the database
+    When I change the quantity of "Koala" to 4
+    And I remove "Dog" from the cart
+    Then the cart should show 4 of "Koala"
+    And the database should show 4 of "Koala" in the cart
+    And the database should show 0 of "Dog" in the cart
+    And the cart totals should match the database prices
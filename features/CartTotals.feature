@@ -0,0 +1,27 @@
+Feature: Cart Totals
+  Scenario: Line totals and the cart total add up
+    Given the cart is empty
+    And I am on the home page
+    When I add the following products to the cart:
+      | product | quantity |
+      | Koala   | 2        |
+      | Cat     | 3        |
+    And I navigate to the cart
+    Then the cart totals should add up
+
+  @db @restore-db
+  Scenario: Cart totals use the database prices
+    Given the "discounted-catalog" fixture is loaded
+    And I am on the home page
+    When I add 1 of "Koala" to the cart
+    And I navigate to the cart
+    Then the cart totals should match the database prices
+
+  @db @restore-db
+  Scenario: Changing a quantity updates the total
+    Given the "discounted-catalog" fixture is loaded
+    And I am on the home page
+    When I navigate to the cart
+    And I change the quantity of "Koala" to 2
+    Then the cart total should be 17.50
+    And the database should show 2 of "Koala" in the cart
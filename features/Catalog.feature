@@ -0,0 +1,9 @@
+Feature: Product Catalog
+  @db
+  Scenario: The home page shows every product in the database
+    Given I am on the home page
+    Then the catalog should match the items table
+
+  Scenario: Every product card is complete
+    Given I am on the home page
+    Then every product should have an image and an enabled Add to Cart button
@@ -0,0 +1,41 @@
+Feature: Checkout
+  Scenario: Check out a single item
+    Given the cart is empty
+    And I am on the home page
+    When I add 1 of "Koala" to the cart
+    And I navigate to the cart
+    And I proceed to checkout
+    Then I should be on the checkout page
+    And the checkout total should match the cart total
+    And I should see the order confirmation
+
+  Scenario: Check out a mixed cart
+    Given the cart is empty
+    And I am on the home page
+    When I add the following products to the cart:
+      | product | quantity |
+      | Koala   | 2        |
+      | Cat     | 1        |
+    And I navigate to the cart
+    And I proceed to checkout
+    Then the checkout total should match the cart total
+    And I should see the order confirmation
+
+  Scenario: The cart is empty after checking out
+    Given the cart is empty
+    And I am on the home page
+    When I add 1 of "Dog" to the cart
+    And I navigate to the cart
+    And I proceed to checkout
+    And I am on the home page
+    Then the cart count should be 0
+
+  @db
+  Scenario: Checking out empties the cart table
+    Given the cart is empty
+    And I am on the home page
+    When I add 2 of "Dog" to the cart
+    And I navigate to the cart
+    And I proceed to checkout
+    Then I should see the order confirmation
+    And the cart table should be empty
@@ -0,0 +1,22 @@
+@db @restore-db
+Feature: Database Fixtures
+  Scenario: Start from a pre-populated cart
+    Given the "multi-item-cart" fixture is loaded
+    And I am on the home page
+    When I navigate to the cart
+    Then I should see 2 item in the cart list
+    And the cart table should contain:
+      | item_id | quantity |
+      | 1       | 2        |
+      | 2       | 1        |
+
+  Scenario: Start from a repriced catalog
+    Given the "discounted-catalog" fixture is loaded
+    And I am on the home page
+    When I navigate to the cart
+    Then I should see "Koala" in the cart
+    And I should see "Dog" in the cart
+    And the cart table should contain:
+      | name  | quantity | price |
+      | Koala | 1        | 5.00  |
+      | Dog   | 1        | 7.50  |
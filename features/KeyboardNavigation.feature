@@ -0,0 +1,47 @@
+Feature: Keyboard Navigation
+  Background:
+    Given the cart is empty
+    And I am on the home page
+
+  Scenario: Home page focus order
+    Then the page should have no keyboard traps
+    And the focus order on the home page should be:
+      | cart link                      |
+      | Add to Cart button for "Koala" |
+      | Add to Cart button for "Dog"   |
+      | Add to Cart button for "Cat"   |
+
+  Scenario: Cart page focus order
+    When I add the following products to the cart:
+      | product | quantity |
+      | Koala   | 1        |
+      | Dog     | 2        |
+    And I navigate to the cart
+    Then the page should have no keyboard traps
+    And the focus order on the cart page should be:
+      | quantity dropdown for "Koala" |
+      | quantity dropdown for "Dog"   |
+      | Checkout button               |
+      | Back to Shop link             |
+
+  Scenario: Checkout page focus order
+    When I add 1 of "Cat" to the cart
+    And I navigate to the cart
+    And I proceed to checkout
+    Then the page should have no keyboard traps
+    And the focus order on the checkout page should be:
+      | Back to Shop link |
+
+  Scenario: Shop using only the keyboard
+    When I add "Koala" to the cart using only the keyboard
+    And I add "Dog" to the cart using only the keyboard
+    Then the cart count should be 2
+    When I navigate to the cart
+    And I change the quantity of "Koala" to 3 using only the keyboard
+    Then the cart should show 3 of "Koala"
+    And the cart totals should add up
+    When I go back to the shop using only the keyboard
+    And I navigate to the cart
+    And I check out using only the keyboard
+    Then I should be on the checkout page
+    And I should see the order confirmation
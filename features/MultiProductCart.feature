@@ -0,0 +1,29 @@
+Feature: Multi-Product Cart
+  Scenario Outline: Add <quantity> of <product> to the cart
+    Given the cart is empty
+    And I am on the home page
+    When I add <quantity> of "<product>" to the cart
+    Then the cart count should be <quantity>
+    When I navigate to the cart
+    Then the cart should contain the added products
+
+    Examples:
+      | product | quantity |
+      | Koala   | 1        |
+      | Dog     | 2        |
+      | Cat     | 3        |
+      | 2       | 1        |
+
+  @db
+  Scenario: Add a mix of products by name and id
+    Given the cart is empty
+    And I am on the home page
+    When I add the following products to the cart:
+      | product | quantity |
+      | Koala   | 2        |
+      | 3       | 1        |
+      | Dog     | 1        |
+    Then the cart count should be 4
+    When I navigate to the cart
+    Then the cart should contain the added products
+    And the database should contain the added products
@@ -0,0 +1,23 @@
+Feature: Network Faults
+  Scenario: Adding to the cart fails with a server error
+    Given the cart is empty
+    And I am on the home page
+    And the "/add-to-cart" request fails with status 500
+    When I try to add an item to the cart
+    Then no success notification should appear
+    And the cart count should be 0
+
+  Scenario: Adding to the cart fails when the connection drops
+    Given the cart is empty
+    And I am on the home page
+    And the "/add-to-cart" request is aborted
+    When I try to add an item to the cart
+    Then no success notification should appear
+    And the cart count should be 0
+
+  Scenario: A slow add-to-cart still completes
+    Given the cart is empty
+    And I am on the home page
+    And the "/add-to-cart" request is delayed by 3 seconds
+    When I add an item to the cart
+    Then the cart count should be 1
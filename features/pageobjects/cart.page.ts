@@ -1,4 +1,35 @@
 import Page from './page'
+import CartRow, { CartLineItem } from './components/cart.row'
+import { DbUtils } from '../support/db.utils'
+import { Money } from '../support/money'
+import { Key } from 'webdriverio'
+import { KeyboardUtils } from '../support/keyboard.utils'
+
+/**
+ * Result of CartPage.verifyTotals().
+ */
+export interface TotalsReport {
+    lines: CartLineItem[]
+    /** Total shown in the page heading. */
+    displayedTotal: Money
+    /** Sum of the rows' line totals. */
+    rowsTotal: Money
+    /** Total recomputed from shop.db prices, or null if no DB was given. */
+    dbTotal: Money | null
+    /** One message per arithmetic, rounding or DB mismatch; empty when everything adds up. */
+    mismatches: string[]
+}
+
+/**
+ * Selectors for the cart page's controls, shared with steps that need to
+ * name an element (e.g. the focus order steps).
+ */
+export const CART_SELECTORS = {
+    checkoutButton: '#checkout-button',
+    shopLink: '#shop-link',
+    /** Quantity <select> in the row whose first cell is the given product name. */
+    quantityDropdown: (productName: string) => `//tbody/tr[td[1][normalize-space()='${productName}']]/td[2]//select`,
+}
 
 /**
  * Page Object Model for the shopping cart page.
@@ -26,21 +57,6 @@ class CartPage extends Page {
         return $$('tbody > tr')
     }
 
-    /**
-     * Product name cell: tr > td:nth-child(1)
-     */
-    private get productNameCell() {
-        return $('td:nth-child(1)')
-    }
-
-    /**
-     * Quantity cell: tr > td:nth-child(2)
-     * Contains a <select> dropdown.
-     */
-    private get quantityCell() {
-        return $('td:nth-child(2)')
-    }
-
     /**
      * Total price heading: h2
      * Text format: "Total Price: $XX.XX"
@@ -53,14 +69,14 @@ class CartPage extends Page {
      * Checkout button: button#checkout-button
      */
     private get checkoutButton() {
-        return $('#checkout-button')
+        return $(CART_SELECTORS.checkoutButton)
     }
 
     /**
      * Back to shop link: a#shop-link
      */
     private get shopLink() {
-        return $('#shop-link')
+        return $(CART_SELECTORS.shopLink)
     }
 
     // ========================================================================
@@ -75,6 +91,7 @@ class CartPage extends Page {
         // Wait for the cart table to load
         await this.waitForElement('table', 10000)
         console.log('✅ Cart page opened and loaded')
+        await this.checkpoint('opened')
     }
 
     /**
@@ -108,6 +125,63 @@ class CartPage extends Page {
         }
     }
 
+    /**
+     * Get every cart row as a component object, in display order.
+     * 
+     * @returns The rows (empty if the cart is empty).
+     */
+    public async getRows(): Promise<CartRow[]> {
+        const rows: CartRow[] = []
+        for (const row of await this.cartItems) {
+            rows.push(new CartRow(row))
+        }
+        return rows
+    }
+
+    /**
+     * Get the row for a product.
+     * 
+     * @param productName The name of the product (e.g., "Koala").
+     * @returns The row component.
+     * @throws Error if no row has that product name.
+     */
+    public async getRow(productName: string): Promise<CartRow> {
+        const row = await this.findRow(productName)
+        if (!row) {
+            throw new Error(`Product '${productName}' not found in cart`)
+        }
+        return row
+    }
+
+    /**
+     * Find the row for a product without failing if it is absent.
+     * 
+     * @param productName The name of the product.
+     * @returns The row component, or null if the product is not in the cart.
+     */
+    public async findRow(productName: string): Promise<CartRow | null> {
+        for (const row of await this.getRows()) {
+            if (await row.getName() === productName) {
+                return row
+            }
+        }
+        return null
+    }
+
+    /**
+     * Assert that a product is not in the cart (e.g. after removing it).
+     * 
+     * @param productName The name of the product.
+     * @throws Error if a row for the product is still shown.
+     */
+    public async assertProductNotInCart(productName: string): Promise<void> {
+        const row = await this.findRow(productName)
+        if (row) {
+            throw new Error(`Product '${productName}' is still in the cart (quantity ${await row.getQuantity()})`)
+        }
+        console.log(`✅ Product '${productName}' is not in the cart`)
+    }
+
     /**
      * Assert that a product with the given name appears in the cart.
      * 
@@ -134,18 +208,8 @@ class CartPage extends Page {
      */
     public async getProductQuantity(productName: string): Promise<number> {
         try {
-            // 1. Find the row for the product
-            const row = await $(`//tr[td[1][contains(text(), '${productName}')]]`)
-            
-            // 2. Find the quantity cell and its select dropdown
-            const quantityCell = await row.$('td:nth-child(2)')
-            const dropdown = await quantityCell.$('select')
-            
-            // 3. Read the currently selected option
-            const selectedOption = await dropdown.$('option:checked')
-            const selectedText = await selectedOption.getText()
-            
-            const quantity = parseInt(selectedText.trim(), 10)
+            const row = await this.getRow(productName)
+            const quantity = await row.getQuantity()
             console.log(`📦 Quantity for '${productName}': ${quantity}`)
             return quantity
         } catch (error) {
@@ -178,24 +242,15 @@ class CartPage extends Page {
      * Get the total price displayed on the cart page.
      * Parses the text "Total Price: $XX.XX"
      * 
-     * @returns The total price as a number, or -1 if not found.
+     * @returns The total price.
+     * @throws Error if no total is shown or it is not exactly one well-formed price.
      */
-    public async getTotalPrice(): Promise<number> {
-        try {
-            const heading = await this.totalPriceHeading
-            await heading.waitForDisplayed({ timeout: 5000 })
-            const totalText = await heading.getText()
-            
-            // Extract numeric value (e.g., "Total Price: $45.99" -> 45.99)
-            const priceMatch = totalText.match(/[\d.]+/)
-            const price = priceMatch ? parseFloat(priceMatch[0]) : -1
-            
-            console.log(`💰 Total price: $${price}`)
-            return price
-        } catch (error) {
-            console.error(`⚠️ Failed to get total price: ${error}`)
-            return -1
-        }
+    public async getTotalPrice(): Promise<Money> {
+        const heading = await this.totalPriceHeading
+        await heading.waitForDisplayed({ timeout: 5000 })
+        const price = Money.parse(await heading.getText())
+        console.log(`💰 Total price: ${price}`)
+        return price
     }
 
     /**
@@ -211,6 +266,78 @@ class CartPage extends Page {
         console.log('✅ Cart is empty')
     }
 
+    /**
+     * Recompute the cart total and compare it with what the page shows.
+     * 
+     * Checks, to the cent, that each line total equals unit price x quantity,
+     * that the displayed total equals the sum of the line totals and, when a
+     * database is given, that prices, quantities and the total agree with the
+     * `cart` and `items` tables.
+     * 
+     * @param dbPath Optional path to shop.db for the database cross-check.
+     * @returns The report, including every mismatch found.
+     * @throws Error listing the mismatches if anything does not add up.
+     */
+    public async verifyTotals(dbPath?: string): Promise<TotalsReport> {
+        const lines: CartLineItem[] = []
+        for (const row of await this.getRows()) {
+            lines.push(await row.toLineItem())
+        }
+        const displayedTotal = await this.getTotalPrice()
+        const rowsTotal = lines.reduce((sum, line) => sum.plus(line.lineTotal), Money.zero())
+        const mismatches: string[] = []
+
+        for (const line of lines) {
+            if (line.unitPrice !== null) {
+                const expected = line.unitPrice.times(line.quantity)
+                if (!line.lineTotal.equals(expected)) {
+                    mismatches.push(`${line.name}: line total ${line.lineTotal} != ${line.unitPrice} x ${line.quantity} = ${expected} (${line.lineTotal.describeDifference(expected)})`)
+                }
+            }
+        }
+        if (!displayedTotal.equals(rowsTotal)) {
+            mismatches.push(`Displayed total ${displayedTotal} != sum of line totals ${rowsTotal} (${displayedTotal.describeDifference(rowsTotal)})`)
+        }
+
+        let dbTotal: Money | null = null
+        if (dbPath) {
+            const dbRows = await DbUtils.getCartContents(dbPath)
+            dbTotal = dbRows.reduce((sum, row) => sum.plus(Money.fromNumber(row.price).times(row.quantity)), Money.zero())
+
+            for (const dbRow of dbRows) {
+                const line = lines.find((candidate) => candidate.name === dbRow.name)
+                if (!line) {
+                    mismatches.push(`${dbRow.name}: in the cart table (quantity ${dbRow.quantity}) but not on the page`)
+                    continue
+                }
+                if (line.quantity !== dbRow.quantity) {
+                    mismatches.push(`${line.name}: quantity ${line.quantity} on the page, ${dbRow.quantity} in the database`)
+                }
+                const dbPrice = Money.fromNumber(dbRow.price)
+                if (line.unitPrice !== null && !line.unitPrice.equals(dbPrice)) {
+                    mismatches.push(`${line.name}: unit price ${line.unitPrice} != database price ${dbPrice}`)
+                }
+                const expected = dbPrice.times(dbRow.quantity)
+                if (!line.lineTotal.equals(expected)) {
+                    mismatches.push(`${line.name}: line total ${line.lineTotal} != database ${dbPrice} x ${dbRow.quantity} = ${expected} (${line.lineTotal.describeDifference(expected)})`)
+                }
+            }
+            for (const line of lines.filter((candidate) => !dbRows.some((row) => row.name === candidate.name))) {
+                mismatches.push(`${line.name}: on the page but not in the cart table`)
+            }
+            if (!displayedTotal.equals(dbTotal)) {
+                mismatches.push(`Displayed total ${displayedTotal} != database total ${dbTotal} (${displayedTotal.describeDifference(dbTotal)})`)
+            }
+        }
+
+        const report: TotalsReport = { lines, displayedTotal, rowsTotal, dbTotal, mismatches }
+        if (mismatches.length > 0) {
+            throw new Error(`Cart totals do not add up:\n${mismatches.join('\n')}`)
+        }
+        console.log(`✅ Cart totals add up: ${lines.length} line(s), total ${displayedTotal}${dbTotal !== null ? ' (matches database)' : ''}`)
+        return report
+    }
+
     // ========================================================================
     // NAVIGATION & ACTIONS
     // ========================================================================
@@ -224,18 +351,27 @@ class CartPage extends Page {
             await button.waitForClickable({ timeout: 5000 })
             await button.click()
             console.log('✅ Clicked Checkout button')
-            
-            // Wait for navigation to checkout page
-            await browser.waitUntil(
-                async () => {
-                    const url = await browser.getUrl()
-                    return url.includes('/checkout')
-                },
-                { timeout: 5000 }
-            )
+            await this.waitForCheckout()
         } catch (error) {
             throw new Error(`Failed to click Checkout button: ${error}`)
         }
+        await this.checkpoint('checkout reached from the cart')
+    }
+
+    /**
+     * Proceed to checkout using the keyboard alone: Tab to #checkout-button
+     * and press Enter.
+     */
+    public async checkoutWithKeyboard(): Promise<void> {
+        try {
+            await KeyboardUtils.tabTo(this.checkoutButton, '#checkout-button')
+            await KeyboardUtils.press(Key.Enter)
+            console.log('✅ Pressed Enter on Checkout button')
+            await this.waitForCheckout()
+        } catch (error) {
+            throw new Error(`Failed to check out with the keyboard: ${error}`)
+        }
+        await this.checkpoint('checkout reached from the cart')
     }
 
     /**
@@ -247,55 +383,170 @@ class CartPage extends Page {
             await link.waitForClickable({ timeout: 5000 })
             await link.click()
             console.log('✅ Clicked Back to Shop link')
-            
-            // Wait for navigation back to home
-            await browser.waitUntil(
-                async () => {
-                    const url = await browser.getUrl()
-                    return !url.includes('/cart')
-                },
-                { timeout: 5000 }
-            )
+            await this.waitForHome()
         } catch (error) {
             throw new Error(`Failed to click Back to Shop: ${error}`)
         }
+        await this.checkpoint('home reached from Back to Shop')
+    }
+
+    /**
+     * Return to the home page using the keyboard alone: Tab to #shop-link and
+     * press Enter.
+     */
+    public async backToShopWithKeyboard(): Promise<void> {
+        try {
+            await KeyboardUtils.tabTo(this.shopLink, '#shop-link')
+            await KeyboardUtils.press(Key.Enter)
+            console.log('✅ Pressed Enter on Back to Shop link')
+            await this.waitForHome()
+        } catch (error) {
+            throw new Error(`Failed to go back to the shop with the keyboard: ${error}`)
+        }
+        await this.checkpoint('home reached from Back to Shop')
+    }
+
+    /**
+     * Wait for navigation to the checkout page.
+     */
+    private async waitForCheckout(): Promise<void> {
+        await browser.waitUntil(
+            async () => {
+                const url = await browser.getUrl()
+                return url.includes('/checkout')
+            },
+            { timeout: 5000 }
+        )
+    }
+
+    /**
+     * Wait for navigation away from the cart (back to home).
+     */
+    private async waitForHome(): Promise<void> {
+        await browser.waitUntil(
+            async () => {
+                const url = await browser.getUrl()
+                return !url.includes('/cart')
+            },
+            { timeout: 5000 }
+        )
     }
 
     /**
      * Update the quantity for a product.
      * 
+     * The dropdown shows the new quantity as soon as it is selected, so that
+     * alone does not prove the app saved it. This waits for what only the
+     * app's answer renders: the row's line total at unit price x the new
+     * quantity (or the row gone, for 0), with the displayed total equal to
+     * the sum of the line totals (or no total shown for an empty cart).
+     * 
      * @param productName The name of the product to update.
      * @param newQuantity The new quantity to select (0-10).
      */
     public async setProductQuantity(productName: string, newQuantity: number): Promise<void> {
+        await this.changeQuantity(productName, newQuantity, (row) => row.selectQuantity(newQuantity))
+    }
+
+    /**
+     * Update the quantity for a product using the keyboard alone: Tab to the
+     * row's quantity dropdown and type the new quantity. Waits for the update
+     * like setProductQuantity().
+     * 
+     * @param productName The name of the product to update.
+     * @param newQuantity The new quantity (0-9).
+     */
+    public async setProductQuantityWithKeyboard(productName: string, newQuantity: number): Promise<void> {
+        await this.changeQuantity(productName, newQuantity, (row) => row.selectQuantityWithKeyboard(newQuantity))
+    }
+
+    /**
+     * Change a row's quantity with the given interaction and wait for the
+     * cart to update (see setProductQuantity()).
+     */
+    private async changeQuantity(
+        productName: string,
+        newQuantity: number,
+        select: (row: CartRow) => Promise<void>
+    ): Promise<void> {
         try {
-            // 1. Get current price
-            const oldPrice = await this.getTotalPrice()
+            // 1. Select the new quantity in the product's row
+            const row = await this.getRow(productName)
+            const oldQuantity = await row.getQuantity()
+            if (oldQuantity === newQuantity) {
+                console.log(`ℹ️ '${productName}' already has quantity ${newQuantity}`)
+                return
+            }
+            const oldLineTotal = await row.getLineTotal()
+            await select(row)
             
-            // 2. Find the row and dropdown
-            const row = await $(`//tr[td[1][contains(text(), '${productName}')]]`)
-            const quantityCell = await row.$('td:nth-child(2)')
-            const dropdown = await quantityCell.$('select')
-            
-            // 3. Select the new quantity
-            await dropdown.selectByVisibleText(String(newQuantity))
-            
-            // 4. Wait for the price to update
+            // 2. Wait for the line total the app renders for the new quantity:
+            //    new total / new quantity == old total / old quantity
             await browser.waitUntil(
                 async () => {
-                    const newPrice = await this.getTotalPrice()
-                    return newPrice !== oldPrice
+                    try {
+                        const updatedRow = await this.findRow(productName)
+                        if (!updatedRow) {
+                            return newQuantity === 0 && await this.totalMatchesRows()
+                        }
+                        const lineTotal = await updatedRow.getLineTotal()
+                        return await updatedRow.getQuantity() === newQuantity
+                            && lineTotal.times(oldQuantity).equals(oldLineTotal.times(newQuantity))
+                            && await this.totalMatchesRows()
+                    } catch {
+                        // Row replaced mid-read by the re-rendered page
+                        return false
+                    }
                 },
-                { timeout: 5000 }
+                {
+                    timeout: 5000,
+                    timeoutMsg: newQuantity === 0
+                        ? `'${productName}' was not removed from the cart`
+                        : `'${productName}' did not show a line total for quantity ${newQuantity} with a matching cart total`,
+                }
             )
             
             console.log(`✅ Updated quantity for '${productName}' to ${newQuantity}`)
+            await this.checkpoint(newQuantity === 0 ? 'product removed' : 'quantity changed')
         } catch (error) {
             throw new Error(
                 `Failed to set quantity for '${productName}': ${error}`
             )
         }
     }
+
+    /**
+     * Check the displayed total against the rows without waiting: it must
+     * equal the sum of the line totals, or be absent when there are no rows.
+     * Anything unreadable mid-render counts as not matching yet.
+     */
+    private async totalMatchesRows(): Promise<boolean> {
+        try {
+            const rows = await this.getRows()
+            let rowsTotal = Money.zero()
+            for (const row of rows) {
+                rowsTotal = rowsTotal.plus(await row.getLineTotal())
+            }
+
+            const heading = await this.totalPriceHeading
+            if (!await heading.isDisplayed()) {
+                return rows.length === 0
+            }
+            return Money.parse(await heading.getText()).equals(rowsTotal)
+        } catch {
+            return false
+        }
+    }
+
+    /**
+     * Remove a product from the cart by setting its quantity to 0.
+     * 
+     * @param productName The name of the product to remove.
+     */
+    public async removeProduct(productName: string): Promise<void> {
+        await this.setProductQuantity(productName, 0)
+        console.log(`✅ Removed '${productName}' from cart`)
+    }
 }
 
 export default new CartPage()
\ No newline at end of file
@@ -1,4 +1,15 @@
 import Page from './page'
+import { Money } from '../support/money'
+
+/**
+ * Selectors for the checkout page's controls, shared with steps that need to
+ * name an element (e.g. the focus order steps).
+ */
+export const CHECKOUT_SELECTORS = {
+    container: '.checkout-container',
+    /** "Back to Shop" link under the confirmation. */
+    shopLink: '.checkout-container a[href="/"]',
+}
 
 /**
  * Page Object Model for the checkout page.
@@ -28,7 +39,7 @@ class CheckoutPage extends Page {
      * Checkout container div
      */
     private get checkoutContainer() {
-        return $('.checkout-container')
+        return $(CHECKOUT_SELECTORS.container)
     }
 
     // ========================================================================
@@ -42,6 +53,7 @@ class CheckoutPage extends Page {
         await super.open('checkout')
         await this.waitForCheckoutPageLoad()
         console.log('✅ Checkout page opened')
+        await this.checkpoint('opened')
     }
 
     /**
@@ -65,18 +77,28 @@ class CheckoutPage extends Page {
      * Get the total price displayed on the checkout page.
      * 
      * @returns The total price as a string (e.g., "Total price: $45.99").
+     * @throws Error if no total is shown on the checkout page.
      */
     public async getTotalPriceText(): Promise<string> {
+        const display = await this.totalPriceDisplay
         try {
-            const display = await this.totalPriceDisplay
             await display.waitForDisplayed({ timeout: 5000 })
-            const text = await display.getText()
-            console.log(`💰 Checkout total: ${text}`)
-            return text
         } catch (error) {
-            console.error(`⚠️ Failed to get total price: ${error}`)
-            return ''
+            throw new Error(`No total price shown on the checkout page: ${error}`)
         }
+        const text = await display.getText()
+        console.log(`💰 Checkout total: ${text}`)
+        return text
+    }
+
+    /**
+     * Get the total price displayed on the checkout page.
+     * 
+     * @returns The total price.
+     * @throws Error if no total is shown or it is not exactly one well-formed price.
+     */
+    public async getTotalPrice(): Promise<Money> {
+        return Money.parse(await this.getTotalPriceText())
     }
 
     /**
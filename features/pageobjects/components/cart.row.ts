@@ -0,0 +1,129 @@
+import { Money } from '../../support/money'
+import { KeyboardUtils } from '../../support/keyboard.utils'
+
+/**
+ * One line of the cart as rendered on the cart page.
+ */
+export interface CartLineItem {
+    name: string
+    /** Unit price, or null if the row only shows a line total. */
+    unitPrice: Money | null
+    quantity: number
+    lineTotal: Money
+}
+
+/**
+ * Component object for a single row of the cart table.
+ * 
+ * Each row is a <tr>: the product name in the first cell, a quantity <select>
+ * in the second, then price cells. With two price cells the first is the unit
+ * price and the last the line total; with one it is the line total.
+ */
+export default class CartRow {
+    /**
+     * @param root The row's <tr> element.
+     */
+    constructor(private readonly root: WebdriverIO.Element) {}
+
+    // ========================================================================
+    // LOCATORS
+    // ========================================================================
+
+    private get nameCell() {
+        return this.root.$('td:nth-child(1)')
+    }
+
+    private get quantityDropdown() {
+        return this.root.$('td:nth-child(2) select')
+    }
+
+    /**
+     * Cells whose text contains "$", in column order.
+     */
+    private get priceCells() {
+        return this.root.$$(`./td[contains(., '$')]`)
+    }
+
+    // ========================================================================
+    // GETTERS
+    // ========================================================================
+
+    /**
+     * @returns The product name.
+     */
+    public async getName(): Promise<string> {
+        return (await (await this.nameCell).getText()).trim()
+    }
+
+    /**
+     * @returns The quantity currently selected in the row's dropdown.
+     */
+    public async getQuantity(): Promise<number> {
+        const selectedOption = await (await this.quantityDropdown).$('option:checked')
+        return parseInt((await selectedOption.getText()).trim(), 10)
+    }
+
+    /**
+     * @returns The unit price, or null if the row only shows a line total.
+     */
+    public async getUnitPrice(): Promise<Money | null> {
+        const cells = await this.priceCells.getElements()
+        return cells.length > 1 ? Money.parse(await cells[0].getText()) : null
+    }
+
+    /**
+     * @returns The line total (the last price cell).
+     * @throws Error if the row shows no price or it is not a well-formed price.
+     */
+    public async getLineTotal(): Promise<Money> {
+        const cells = await this.priceCells.getElements()
+        if (cells.length === 0) {
+            throw new Error(`Cart row '${await this.getName()}' shows no price`)
+        }
+        return Money.parse(await cells[cells.length - 1].getText())
+    }
+
+    /**
+     * Read the whole row.
+     * 
+     * @returns The typed line item.
+     */
+    public async toLineItem(): Promise<CartLineItem> {
+        return {
+            name: await this.getName(),
+            unitPrice: await this.getUnitPrice(),
+            quantity: await this.getQuantity(),
+            lineTotal: await this.getLineTotal(),
+        }
+    }
+
+    // ========================================================================
+    // ACTIONS
+    // ========================================================================
+
+    /**
+     * Select a new quantity in the row's dropdown.
+     * 
+     * @param quantity The quantity to select (0-10).
+     */
+    public async selectQuantity(quantity: number): Promise<void> {
+        await (await this.quantityDropdown).selectByVisibleText(String(quantity))
+    }
+
+    /**
+     * Select a new quantity using the keyboard alone: Tab from the top of the
+     * page to the row's dropdown and type the quantity. The dropdown's
+     * typeahead selects the matching option and fires a single change event;
+     * arrow keys would fire one per option passed.
+     * 
+     * @param quantity The quantity to select (0-9; typing "10" would select "1" first).
+     * @throws Error if the quantity has more than one digit or the dropdown cannot be reached by Tab.
+     */
+    public async selectQuantityWithKeyboard(quantity: number): Promise<void> {
+        if (!Number.isInteger(quantity) || quantity < 0 || quantity > 9) {
+            throw new Error(`Only quantities 0-9 can be typed into the quantity dropdown, got ${quantity}`)
+        }
+        await KeyboardUtils.tabTo(this.quantityDropdown, `quantity dropdown for '${await this.getName()}'`)
+        await KeyboardUtils.type(String(quantity))
+    }
+}
@@ -0,0 +1,136 @@
+import { Money } from '../../support/money'
+
+/**
+ * One product as rendered on the home page.
+ */
+export interface Product {
+    id: number
+    name: string
+    price: number
+    /** The product image, or null if the card has none. */
+    image: { src: string, alt: string } | null
+    /** Whether the "Add to Cart" button can be clicked. */
+    addToCartEnabled: boolean
+}
+
+/**
+ * Component object for a single product card on the home page.
+ * 
+ * Each card is an <li> containing an image, an h2 with the name, the price,
+ * and a form with a hidden itemId input and an "Add to Cart" button.
+ */
+export default class ProductCard {
+    /**
+     * @param root The card's <li> element.
+     */
+    constructor(private readonly root: WebdriverIO.Element) {}
+
+    // ========================================================================
+    // LOCATORS
+    // ========================================================================
+
+    private get nameHeading() {
+        return this.root.$('h2')
+    }
+
+    /**
+     * Price text: the first element in the card whose own text contains "$".
+     */
+    private get priceText() {
+        return this.root.$(`.//*[contains(text(), '$')]`)
+    }
+
+    private get image() {
+        return this.root.$('img')
+    }
+
+    private get itemIdInput() {
+        return this.root.$(`input[name='itemId']`)
+    }
+
+    private get addToCartButton() {
+        return this.root.$(`button[type='submit']`)
+    }
+
+    // ========================================================================
+    // GETTERS
+    // ========================================================================
+
+    /**
+     * @returns The item ID from the card's hidden itemId input.
+     */
+    public async getItemId(): Promise<number> {
+        const value = await (await this.itemIdInput).getAttribute('value')
+        const itemId = parseInt(value ?? '', 10)
+        if (Number.isNaN(itemId)) {
+            throw new Error(`Product card has no itemId (value: ${value})`)
+        }
+        return itemId
+    }
+
+    /**
+     * @returns The product name from the card heading.
+     */
+    public async getName(): Promise<string> {
+        return (await (await this.nameHeading).getText()).trim()
+    }
+
+    /**
+     * Parse the displayed price (e.g. "$15.00" -> 15).
+     * 
+     * @returns The price as a number.
+     * @throws Error if the card shows no parsable price.
+     */
+    public async getPrice(): Promise<number> {
+        return Money.parse(await (await this.priceText).getText()).toNumber()
+    }
+
+    /**
+     * @returns The image src and alt text, or null if the card has no image.
+     */
+    public async getImage(): Promise<Product['image']> {
+        const image = await this.image
+        if (!(await image.isExisting())) {
+            return null
+        }
+        return {
+            src: (await image.getAttribute('src')) ?? '',
+            alt: (await image.getAttribute('alt')) ?? '',
+        }
+    }
+
+    /**
+     * @returns true if the "Add to Cart" button is enabled.
+     */
+    public async isAddToCartEnabled(): Promise<boolean> {
+        return (await this.addToCartButton).isEnabled()
+    }
+
+    /**
+     * Read the whole card.
+     * 
+     * @returns The typed product model.
+     */
+    public async toProduct(): Promise<Product> {
+        return {
+            id: await this.getItemId(),
+            name: await this.getName(),
+            price: await this.getPrice(),
+            image: await this.getImage(),
+            addToCartEnabled: await this.isAddToCartEnabled(),
+        }
+    }
+
+    // ========================================================================
+    // ACTIONS
+    // ========================================================================
+
+    /**
+     * Click the card's "Add to Cart" button.
+     */
+    public async clickAddToCart(): Promise<void> {
+        const button = await this.addToCartButton
+        await button.waitForClickable({ timeout: 5000 })
+        await button.click()
+    }
+}
@@ -1,4 +1,17 @@
 import Page from './page'
+import ProductCard, { Product } from './components/product.card'
+import { Key } from 'webdriverio'
+import { KeyboardUtils } from '../support/keyboard.utils'
+
+/**
+ * Selectors for the home page's controls, shared with steps that need to
+ * name an element (e.g. the focus order steps).
+ */
+export const HOME_SELECTORS = {
+    cartLink: '#cart-link',
+    /** "Add to Cart" button of the product card whose heading is the given name. */
+    addToCartButton: (productName: string) => `//li[.//h2[normalize-space()='${productName}']]//form//button`,
+}
 
 /**
  * Page Object Model for the home page (AI Animal Art store).
@@ -16,7 +29,7 @@ class HomePage extends Page {
      * Displays the numeric cart count.
      */
     private get cartCountBadge() {
-        return $('#cart-link span')
+        return $(`${HOME_SELECTORS.cartLink} span`)
     }
 
     /**
@@ -24,7 +37,7 @@ class HomePage extends Page {
      * Used for navigating to the cart page.
      */
     private get cartLink() {
-        return $('#cart-link')
+        return $(HOME_SELECTORS.cartLink)
     }
 
     /**
@@ -78,6 +91,16 @@ class HomePage extends Page {
         return $(`//form[.//input[@name='itemId' and @value='${itemId}']]/ancestor::li//h2`)
     }
 
+    /**
+     * Get the hidden itemId input of the product card whose heading is the given name.
+     * 
+     * @param productName The product name (e.g., "Koala").
+     * @returns The input element selector.
+     */
+    private getItemIdInputByName(productName: string) {
+        return $(`//li[.//h2[normalize-space()='${productName}']]//input[@name='itemId']`)
+    }
+
     // ========================================================================
     // NAVIGATION
     // ========================================================================
@@ -92,6 +115,7 @@ class HomePage extends Page {
         // Wait for the product list to load
         await this.waitForElement('ul > li', 10000)
         console.log('✅ Homepage opened and loaded')
+        await this.checkpoint('opened')
     }
 
     /**
@@ -111,6 +135,7 @@ class HomePage extends Page {
             { timeout: 5000 }
         )
         console.log('✅ Navigated to cart page')
+        await this.checkpoint('cart opened from the cart link')
     }
 
     // ========================================================================
@@ -181,6 +206,51 @@ class HomePage extends Page {
         }
     }
 
+    /**
+     * Add a product to the cart one unit at a time, waiting for each success
+     * notification to appear and disappear so the DOM is stable between clicks.
+     * 
+     * @param itemId The ID of the item to add.
+     * @param quantity How many units to add (default 1).
+     * @throws Error if any click or notification fails.
+     */
+    public async addProductToCart(itemId: number, quantity: number = 1): Promise<void> {
+        for (let i = 0; i < quantity; i++) {
+            await this.prepareCheckpoint()
+            await this.addToCartByItemId(itemId)
+            await this.assertSuccessNotificationVisible()
+            await this.checkpointNotification()
+            await this.assertSuccessNotificationHidden()
+        }
+        console.log(`✅ Added item ${itemId} x${quantity} to cart`)
+    }
+
+    /**
+     * Add one unit of a product using the keyboard alone: Tab from the top of
+     * the page to its "Add to Cart" button and press Enter.
+     * 
+     * @param itemId The ID of the item to add.
+     * @throws Error if the button cannot be reached by Tab or no success notification appears.
+     */
+    public async addToCartWithKeyboard(itemId: number): Promise<void> {
+        await KeyboardUtils.tabTo(this.getAddToCartButton(itemId), `'Add to Cart' for item ${itemId}`)
+        await this.prepareCheckpoint()
+        await KeyboardUtils.press(Key.Enter)
+        await this.assertSuccessNotificationVisible()
+        await this.checkpointNotification()
+        console.log(`✅ Added item ${itemId} to cart with the keyboard`)
+        await this.assertSuccessNotificationHidden()
+    }
+
+    /**
+     * Audit the success notification while it is shown. It hides itself after
+     * a few seconds, so only the notification is audited (axe is loaded
+     * beforehand with prepareCheckpoint()).
+     */
+    private async checkpointNotification(): Promise<void> {
+        await this.checkpoint('success notification shown', ['.notification'])
+    }
+
     /**
      * Click the "Add to Cart" button for the first product on the page.
      * Convenience method for simple tests.
@@ -209,6 +279,29 @@ class HomePage extends Page {
         }
     }
 
+    /**
+     * Get the itemId of a product by its displayed name.
+     * 
+     * Reads the hidden itemId input in the product card whose h2 matches the name.
+     * 
+     * @param productName The product name (e.g., "Koala").
+     * @returns The item ID.
+     * @throws Error if no product card has that name.
+     */
+    public async getItemIdByProductName(productName: string): Promise<number> {
+        try {
+            const input = await this.getItemIdInputByName(productName)
+            const itemId = parseInt(await input.getAttribute('value') ?? '', 10)
+            if (Number.isNaN(itemId)) {
+                throw new Error('product card has no itemId')
+            }
+            console.log(`📦 Item id for '${productName}': ${itemId}`)
+            return itemId
+        } catch (error) {
+            throw new Error(`Product '${productName}' not found on the home page: ${error}`)
+        }
+    }
+
     /**
      * Assert that a specific text appears somewhere on the page.
      * 
@@ -250,6 +343,48 @@ class HomePage extends Page {
         }
     }
 
+    /**
+     * Assert that the success notification does not appear (e.g. when adding fails).
+     * 
+     * @param timeout How long to watch for the notification, in milliseconds (default 3000).
+     * @throws Error if the notification appears within the timeout.
+     */
+    public async assertSuccessNotificationNotShown(timeout: number = 3000): Promise<void> {
+        const notification = await this.successNotification
+        const appeared = await notification.waitForDisplayed({ timeout }).catch(() => false)
+        if (appeared) {
+            throw new Error(`Success notification appeared unexpectedly: ${await notification.getText()}`)
+        }
+        console.log('✅ No success notification shown')
+    }
+
+    /**
+     * Get the product card for a specific item.
+     * 
+     * @param itemId The ID of the product.
+     * @returns The card component.
+     */
+    public async getProductCard(itemId: number): Promise<ProductCard> {
+        const card = $(`//form[.//input[@name='itemId' and @value='${itemId}']]/ancestor::li`)
+        await card.waitForExist({ timeout: 5000 })
+        return new ProductCard(await card.getElement())
+    }
+
+    /**
+     * Read every product card on the page, in display order.
+     * 
+     * @returns The typed catalog (id, name, price, image, button state).
+     * @throws Error if a card cannot be read.
+     */
+    public async getCatalog(): Promise<Product[]> {
+        const catalog: Product[] = []
+        for (const card of await this.productList) {
+            catalog.push(await new ProductCard(card).toProduct())
+        }
+        console.log(`📦 Catalog: ${catalog.map((product) => `${product.id}:${product.name}`).join(', ')}`)
+        return catalog
+    }
+
     /**
      * Get the total number of products displayed on the home page.
      * 
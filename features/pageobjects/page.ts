@@ -1,5 +1,7 @@
 import { browser } from '@wdio/globals'
 
+import { A11yMonitor } from '../support/a11y.monitor'
+
 /**
  * Base page object containing all methods and functionality
  * that is shared across all page objects.
@@ -14,6 +16,25 @@ export default class Page {
         return browser.url(path)
     }
 
+    /**
+     * Run an automatic accessibility audit of the current UI state when the
+     * scenario is monitored (@a11y or the a11yAudit setting); otherwise a no-op.
+     * 
+     * @param state What just happened (e.g. "opened"), prefixed with the page object name.
+     * @param include Selectors to audit instead of the whole page (e.g. a transient notification).
+     */
+    protected async checkpoint(state: string, include: string[] = []): Promise<void> {
+        await A11yMonitor.checkpoint(`${this.constructor.name}: ${state}`, include)
+    }
+
+    /**
+     * Load the audit engine before triggering a short-lived UI state, so its
+     * checkpoint runs before the state is gone. A no-op when not monitored.
+     */
+    protected async prepareCheckpoint(): Promise<void> {
+        await A11yMonitor.prepare()
+    }
+
     /**
      * Get the current page title.
      * 
@@ -1,64 +1,70 @@
-import { Then } from '@wdio/cucumber-framework';
+import { Then, Before, After, AfterAll, DataTable } from '@wdio/cucumber-framework';
 import allureReporter from '@wdio/allure-reporter';
+import { SoftAssert } from '../support/soft.assert';
+import { AccessibilityUtils, AuditFinding, AuditOptions } from '../support/accessibility.utils';
+import { ConfigUtils } from '../support/config.utils';
+import { A11yMonitor } from '../support/a11y.monitor';
 
 /**
  * FILE PURPOSE:
  * This step definition file handles Automated Accessibility Compliance auditing.
- * It ensures the application meets WCAG 2.1 AA standards as required by 
+ * It ensures the application meets WCAG 2.1 AA standards as required by
  * Texas Administrative Code (TAC) 213 for state government entities.
+ *
+ * Known violations (compliance debt) are listed per rule and element in the
+ * baseline file (features/a11y/baseline.yml); only violations missing from
+ * it fail the scenario.
+ *
+ * Scenarios tagged @a11y (or every scenario, with the a11yAudit setting) are
+ * also audited automatically at each page-object checkpoint; see A11yMonitor.
  */
 
-Then(/^the page should be accessible$/, { timeout: 60000 }, async () => {
-    
+/**
+ * HOOKS: AUTOMATIC AUDITS
+ * Monitoring starts before each opted-in scenario and stops after it; each
+ * worker saves its per-page results when it finishes, for A11yReportService
+ * to merge into one report per page.
+ */
+Before(async function (scenario) {
+    const tagged = scenario.pickle.tags.some((tag) => tag.name === '@a11y');
+    A11yMonitor.start(scenario.pickle.name, scenario.pickle.uri, tagged || ConfigUtils.isA11yAuditEnabled());
+});
+
+After(async function () {
+    A11yMonitor.stop();
+});
+
+AfterAll(async function () {
+    A11yMonitor.flush();
+});
+
+/**
+ * Audit the current page, attach the audit log and record violations as
+ * soft assertions.
+ */
+async function auditPage(options: AuditOptions, stepText: string): Promise<void> {
+
     /**
      * SECTION 1: BROWSER EXECUTION
-     * We use a Dynamic CDN Import to load Axe-core directly into the browser.
-     * This bypasses WebDriver BiDi protocol limitations regarding argument size.
+     * AccessibilityUtils injects the installed axe-core build (see AxeUtils),
+     * runs the requested rule tags over the requested scope and matches each
+     * violating element against the baseline.
      */
-    const results: any = await browser.execute(async () => {
-        // Load the engine directly into the browser's memory
-        await import('https://cdnjs.cloudflare.com/ajax/libs/axe-core/4.10.2/axe.min.js' as any);
-        
-        // --- UPDATED SCAN LOGIC ---
-        // We now explicitly tell Axe to scan the entire document and 
-        // include all WCAG 2.1 AA rules, even if it thinks they aren't applicable.
-        // @ts-ignore
-        return window.axe.run(document, { 
-            runOnly: { 
-                type: 'tag', 
-                values: ['wcag2a', 'wcag2aa', 'wcag21aa', 'section508'] 
-            } 
-        });
-    });
+    const report = await AccessibilityUtils.audit(options, ConfigUtils.getA11yBaselinePath());
+    A11yMonitor.record(report, `Step: ${stepText}`);
 
-/**
+    /**
      * SECTION 2: AUDIT LOG FORMATTING
      * Formatted specifically for TAC 213 Compliance Audits.
      */
-    const auditLog = [
-        `🛡️ ACCESSIBILITY COMPLIANCE AUDIT`,
-        `Checked on: ${new Date().toLocaleString()}`,
-        `Compliance Standard: TAC 213 / WCAG 2.1 AA`,
-        `Total Rules Validated: ${results.passes.length + results.violations.length + results.incomplete.length}`,
-        `------------------------------------------------`,
-        `✅ PASSED RULES (${results.passes.length}):`,
-        ...results.passes.map((p: any) => `✔ [PASS] ${p.help}`),
-        
-        results.violations.length > 0 ? `\n❌ COMPLIANCE VIOLATIONS FOUND (${results.violations.length}):` : '\n✅ NO VIOLATIONS FOUND',
-        ...results.violations.map((v: any) => 
-            `✖ [${v.impact.toUpperCase()}] ${v.help}\n` +
-            `  REMEDIATION: ${v.helpUrl}\n` +
-            `  TARGET ELEMENT: ${v.nodes.map((n: any) => n.target).join(', ')}`
-        ),
-        `\n------------------------------------------------`,
-        `END OF AUDIT REPORT`
-    ].join('\n');
+    const auditLog = AccessibilityUtils.formatAuditLog(report);
 
     /**
      * SECTION 3: ALLURE REPORTING
-     * We explicitly attach the audit log to the Allure Report.
+     * We explicitly attach the audit log and the raw axe results to the Allure Report.
      */
     allureReporter.addAttachment('Accessibility Audit Log', auditLog, 'text/plain');
+    allureReporter.addAttachment('Accessibility Results (JSON)', JSON.stringify(report.results, null, 2), 'application/json');
 
     /**
      * SECTION 4: CONSOLE OUTPUT
@@ -66,18 +72,47 @@ Then(/^the page should be accessible$/, { timeout: 60000 }, async () => {
      */
     console.log(auditLog);
 
-// SOFT ASSERTION (Handles the known failure gracefully)
-    if (results.violations.length > 0) {
-       // This adds a clean "Metadata" entry in the Allure report
-        // It appears as a label under the test name, not a clickable link.
-        allureReporter.addArgument('Known Compliance Debt', 'MISSING-LANG-ATTRIBUTE');
-        
-        // This ensures the terminal log is impossible to miss
-        console.warn("\n⚠️  COMPLIANCE ALERT: Accessibility violations were detected.");
+    /**
+     * SECTION 5: SOFT ASSERTIONS
+     * Every violation is recorded, so the scenario fails once, in the soft
+     * assertion After hook. Baseline matches are reported against their
+     * ticket without failing the pipeline.
+     */
+    const describe = (finding: AuditFinding) =>
+        `[${(finding.impact ?? 'unknown').toUpperCase()}] ${finding.rule}: ${finding.help} (${finding.target} on ${report.page})`;
+
+    for (const finding of report.knownViolations) {
+        SoftAssert.fail(describe(finding), { knownIssue: finding.ticket });
+    }
+    for (const finding of report.newViolations) {
+        SoftAssert.fail(describe(finding));
+    }
+
+    if (report.newViolations.length > 0) {
+        console.warn("\n⚠️  COMPLIANCE ALERT: New accessibility violations were detected.");
         console.warn("Review the 'Accessibility Audit Log' attachment for remediation steps.\n");
-        // Note: We are not throwing an error here so the pipeline stays green
-        // while the Audit Log documents the actual compliance status.
-    } else {
-        expect(results.violations.length).toBe(0);
     }
-});
\ No newline at end of file
+}
+
+/**
+ * Then: the page should be accessible
+ *
+ * Whole document, WCAG 2.1 AA + Section 508 tags, every impact level.
+ */
+Then(/^the page should be accessible$/, { timeout: 60000 }, async () => {
+    await auditPage({}, 'the page should be accessible');
+});
+
+/**
+ * Then: the page should be accessible with:
+ *   | tags    | wcag2a, wcag2aa |
+ *   | include | main            |
+ *   | exclude | .ads, #chat     |
+ *   | impact  | serious         |
+ *
+ * Every row is optional. `impact` ignores less severe violations
+ * (minor < moderate < serious < critical).
+ */
+Then(/^the page should be accessible with:$/, { timeout: 60000 }, async (table: DataTable) => {
+    await auditPage(AccessibilityUtils.parseOptions(table.rowsHash()), 'the page should be accessible with options');
+});
@@ -0,0 +1,114 @@
+import { When, Then } from '@wdio/cucumber-framework'
+import { expect } from '@wdio/globals'
+import allureReporter from '@wdio/allure-reporter'
+
+import { ApiUtils } from '../support/api.utils'
+
+/**
+ * Step Definitions for API-level cart setup and API-only scenarios.
+ *
+ * These steps talk to the app directly through ApiUtils (no browser), so they
+ * can prepare state for UI scenarios or verify the backend on their own.
+ * ApiUtils is initialized in the Before hook in cart.steps.ts.
+ */
+
+// ============================================================================
+// WHEN STEPS
+// ============================================================================
+
+/**
+ * When: I add 2 of item 1 to the cart via the API
+ */
+When('I add {int} of item {int} to the cart via the API', async function (quantity: number, itemId: number) {
+    await ApiUtils.addToCart(itemId, quantity)
+})
+
+/**
+ * When: I update item 1 to quantity 3 via the API
+ */
+When('I update item {int} to quantity {int} via the API', async function (itemId: number, quantity: number) {
+    await ApiUtils.updateQuantity(itemId, quantity)
+})
+
+/**
+ * When: I remove item 2 from the cart via the API
+ */
+When('I remove item {int} from the cart via the API', async function (itemId: number) {
+    await ApiUtils.removeItem(itemId)
+})
+
+/**
+ * When: I check out via the API
+ */
+When('I check out via the API', async function () {
+    await ApiUtils.checkout()
+})
+
+/**
+ * When: I request the "cart" route via the API accepting "text/html"
+ *
+ * Sends a plain GET with the given Accept header. A body that breaks the
+ * route's contract only logs a warning unless apiStrictContracts is set.
+ */
+When('I request the {string} route via the API accepting {string}', async function (route: string, accept: string) {
+    await ApiUtils.get(route, accept)
+})
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: the API cart should contain 3 of item 1
+ *
+ * Reads the cart through GET /cart rather than the database.
+ */
+Then('the API cart should contain {int} of item {int}', async function (expectedQuantity: number, itemId: number) {
+    const cart = await ApiUtils.getCart()
+    const line = cart.items.find((item) => item.itemId === itemId)
+
+    expect(line?.quantity ?? 0).toBe(expectedQuantity)
+    console.log(`✅ API cart has item ${itemId} x${expectedQuantity}`)
+})
+
+/**
+ * Then: the API cart should be empty
+ */
+Then('the API cart should be empty', async function () {
+    const cart = await ApiUtils.getCart()
+
+    expect(cart.items.length).toBe(0)
+    console.log('✅ API cart is empty')
+})
+
+/**
+ * Then: the "add-to-cart" response matches its contract
+ *
+ * Checks the last successful response from that route (in this scenario)
+ * against its schema in api.contracts.ts. On mismatch, the violations and the
+ * offending body are attached to Allure.
+ */
+Then('the {string} response matches its contract', async function (route: string) {
+    const check = ApiUtils.getContractCheck(route)
+
+    if (check.violations.length > 0) {
+        const report = `${check.violations.join('\n')}\n\nStatus: ${check.status}\nBody:\n${JSON.stringify(check.body, null, 2)}`
+        allureReporter.addAttachment('Contract Violations', report, 'text/plain')
+        throw new Error(`"${route}" response does not match its contract:\n${check.violations.join('\n')}`)
+    }
+    console.log(`✅ "${route}" response matches its contract`)
+})
+
+/**
+ * Then: the "cart" response breaks its contract
+ *
+ * The negative of the step above: the last successful response from that
+ * route must have contract violations. They are attached to Allure.
+ */
+Then('the {string} response breaks its contract', async function (route: string) {
+    const check = ApiUtils.getContractCheck(route)
+
+    expect(check.violations.length).toBeGreaterThan(0)
+    allureReporter.addAttachment('Contract Violations', check.violations.join('\n'), 'text/plain')
+    console.log(`✅ "${route}" response breaks its contract (${check.violations.length} violation(s))`)
+})
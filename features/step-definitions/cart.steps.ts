@@ -1,8 +1,14 @@
-import { Given, When, Then, Before, After } from '@wdio/cucumber-framework'
+import { Given, When, Then, Before, After, DataTable } from '@wdio/cucumber-framework'
 import { expect } from '@wdio/globals'
+import allureReporter from '@wdio/allure-reporter'
 
 import { ApiUtils } from '../support/api.utils'
+import { HttpRecorder } from '../support/http.recorder'
 import { DbUtils } from '../support/db.utils'
+import { ConfigUtils } from '../support/config.utils'
+import { DiffUtils } from '../support/diff.utils'
+import { Money } from '../support/money'
+import AppUnderTestService from '../support/app.service'
 import HomePage from '../pageobjects/home.page'
 import CartPage from '../pageobjects/cart.page'
 
@@ -17,8 +23,63 @@ import CartPage from '../pageobjects/cart.page'
 // SETUP & TEARDOWN
 // ============================================================================
 
+// Byte offset into the app-under-test log at the start of the current scenario
+let appLogOffset = 0
+
+// Products added through the UI in the current scenario, keyed by item id
+const addedProducts = new Map<number, { name: string, quantity: number }>()
+
+/**
+ * Resolve a product given by name ("Koala") or id ("1") to both, using the
+ * product cards on the home page.
+ */
+async function resolveProduct(product: string): Promise<{ itemId: number, name: string }> {
+    if (/^\d+$/.test(product.trim())) {
+        const itemId = parseInt(product, 10)
+        const name = await HomePage.getProductNameByItemId(itemId)
+        if (!name) {
+            throw new Error(`No product with item id ${itemId} on the home page`)
+        }
+        return { itemId, name }
+    }
+
+    const name = product.trim()
+    return { itemId: await HomePage.getItemIdByProductName(name), name }
+}
+
+/**
+ * Add a product through the UI and remember it for the "added products" assertions.
+ */
+async function addProduct(product: string, quantity: number): Promise<void> {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+        throw new Error(`Quantity for '${product}' must be a positive integer, got ${quantity}`)
+    }
+
+    const { itemId, name } = await resolveProduct(product)
+    await HomePage.addProductToCart(itemId, quantity)
+
+    const previous = addedProducts.get(itemId)?.quantity ?? 0
+    addedProducts.set(itemId, { name, quantity: previous + quantity })
+}
+
+/**
+ * Keep the remembered products in step with a quantity edited on the cart page.
+ */
+function recordQuantityChange(productName: string, quantity: number): void {
+    for (const [itemId, product] of addedProducts) {
+        if (product.name === productName) {
+            if (quantity === 0) {
+                addedProducts.delete(itemId)
+            } else {
+                product.quantity = quantity
+            }
+        }
+    }
+}
+
 /**
- * Before each scenario: Initialize utilities and set up test environment.
+ * Before each scenario: Initialize utilities, wait for the app to answer,
+ * and set up test environment.
  */
 Before(async function () {
     // Initialize API utils with base URL
@@ -27,14 +88,27 @@ Before(async function () {
     if (!baseUrl) {
         throw new Error('Base URL not defined in wdio.conf.ts');
     }
-    ApiUtils.initialize(baseUrl)
+    ApiUtils.initialize(baseUrl, ConfigUtils.getApiOptions())
+    HttpRecorder.reset()
+    addedProducts.clear()
+    await ApiUtils.waitForAppReady()
+    appLogOffset = AppUnderTestService.getLogOffset()
     console.log(`✅ Test setup complete. Base URL: ${baseUrl}`)
 })
 
 /**
- * After each scenario: Clean up (optional).
+ * After each scenario: Close pooled DB connections, attach the API calls made
+ * during the scenario, and attach the app-under-test output written during the
+ * scenario (only when the runner captured its log).
  */
-After(async function () {
+After(async function (scenario) {
+    await DbUtils.closeAll()
+    HttpRecorder.attachToReport(scenario.pickle.name)
+
+    const appLog = AppUnderTestService.readLogSince(appLogOffset)
+    if (appLog) {
+        allureReporter.addAttachment('App Under Test Log', appLog, 'text/plain')
+    }
     console.log('✅ Test teardown complete')
 })
 
@@ -119,6 +193,57 @@ When('I navigate to the cart', async function () {
     }
 })
 
+/**
+ * When: I add 2 of "Koala" to the cart
+ * 
+ * The product can be given by name or by item id (e.g. "3").
+ */
+When('I add {int} of {string} to the cart', async function (quantity: number, product: string) {
+    try {
+        await addProduct(product, quantity)
+    } catch (error) {
+        throw new Error(`Failed to add ${quantity} of '${product}' to cart: ${error}`)
+    }
+})
+
+/**
+ * When: I add the following products to the cart:
+ *   | product | quantity |
+ *   | Koala   | 2        |
+ *   | 3       | 1        |
+ * 
+ * Products can be given by name or by item id; quantity defaults to 1.
+ */
+When('I add the following products to the cart:', async function (table: DataTable) {
+    for (const row of table.hashes()) {
+        const quantity = row.quantity ? parseInt(row.quantity, 10) : 1
+        try {
+            await addProduct(row.product, quantity)
+        } catch (error) {
+            throw new Error(`Failed to add ${quantity} of '${row.product}' to cart: ${error}`)
+        }
+    }
+})
+
+/**
+ * When: I change the quantity of "Koala" to 3
+ * 
+ * Selects the new quantity in the product's row on the cart page and waits
+ * for the total to update. Selecting 0 removes the product.
+ */
+When('I change the quantity of {string} to {int}', async function (productName: string, quantity: number) {
+    await CartPage.setProductQuantity(productName, quantity)
+    recordQuantityChange(productName, quantity)
+})
+
+/**
+ * When: I remove "Koala" from the cart
+ */
+When('I remove {string} from the cart', async function (productName: string) {
+    await CartPage.removeProduct(productName)
+    recordQuantityChange(productName, 0)
+})
+
 // ============================================================================
 // THEN STEPS
 // ============================================================================
@@ -151,7 +276,7 @@ Then('I should see {int} item in the cart list', async function (expectedCount:
  */
 Then('the database should show {int} item in the cart', async function (expectedQuantity: number) {
     try {
-        const dbPath = (browser.options as any).dbPath || process.env.DB_PATH;
+        const dbPath = ConfigUtils.getDbPath()
         const itemId = 1
 
         // Query the database
@@ -165,6 +290,105 @@ Then('the database should show {int} item in the cart', async function (expected
     }
 })
 
+/**
+ * Then: the cart should contain the added products
+ * 
+ * Checks the cart page shows exactly the products added in this scenario,
+ * each with its accumulated quantity.
+ */
+Then('the cart should contain the added products', async function () {
+    try {
+        const items = await CartPage.getCartItems()
+        expect(items.length).toBe(addedProducts.size)
+
+        for (const { name, quantity } of addedProducts.values()) {
+            await CartPage.assertProductQuantity(name, quantity)
+        }
+        console.log(`✅ Cart page shows all ${addedProducts.size} added product(s)`)
+    } catch (error) {
+        throw new Error(`Cart contents assertion failed: ${error}`)
+    }
+})
+
+/**
+ * Then: the database should contain the added products
+ * 
+ * Compares the `cart` table (joined with `items`) with the products added in
+ * this scenario, so item ids, names and quantities must all agree.
+ */
+Then('the database should contain the added products', async function () {
+    const expected = [...addedProducts].map(([itemId, { name, quantity }]) => ({ item_id: itemId, name, quantity }))
+    const actual = await DbUtils.getCartContents(ConfigUtils.getDbPath())
+    const diff = DiffUtils.diffTables(expected, actual, ['item_id', 'name', 'quantity'])
+
+    if (!diff.matches) {
+        allureReporter.addAttachment('Cart Table Diff', diff.text, 'text/plain')
+        throw new Error(`Cart table does not match the added products:\n${diff.text}`)
+    }
+    console.log(`✅ Database matches all ${expected.length} added product(s)`)
+})
+
+/**
+ * Then: the cart should show 3 of "Koala"
+ */
+Then('the cart should show {int} of {string}', async function (quantity: number, productName: string) {
+    await CartPage.assertProductQuantity(productName, quantity)
+})
+
+/**
+ * Then: "Koala" should not be in the cart
+ */
+Then('{string} should not be in the cart', async function (productName: string) {
+    await CartPage.assertProductNotInCart(productName)
+})
+
+/**
+ * Then: the cart total should be 45.00
+ */
+Then('the cart total should be {float}', async function (expectedTotal: number) {
+    const actualTotal = await CartPage.getTotalPrice()
+
+    actualTotal.assertEquals(Money.fromNumber(expectedTotal), 'Cart total')
+    console.log(`✅ Cart total is ${actualTotal}`)
+})
+
+/**
+ * Then: the database should show 3 of "Koala" in the cart
+ * 
+ * Looks up the item id by name in `items`, then checks its `cart` quantity
+ * (0 when the item has been removed).
+ */
+Then('the database should show {int} of {string} in the cart', async function (expectedQuantity: number, productName: string) {
+    const dbPath = ConfigUtils.getDbPath()
+    const itemId = await DbUtils.getItemId(dbPath, productName)
+    if (itemId === null) {
+        throw new Error(`No item named '${productName}' in the items table`)
+    }
+
+    const actualQuantity = await DbUtils.getCartQuantity(dbPath, itemId)
+    expect(actualQuantity).toBe(expectedQuantity)
+    console.log(`✅ Database assertion passed: '${productName}' quantity = ${expectedQuantity}`)
+})
+
+/**
+ * Then: the cart totals should add up
+ * 
+ * Recomputes every line total and the cart total from the rows on the page.
+ */
+Then('the cart totals should add up', async function () {
+    await CartPage.verifyTotals()
+})
+
+/**
+ * Then: the cart totals should match the database prices
+ * 
+ * As above, and also recomputes the total from `items` prices and `cart`
+ * quantities in shop.db.
+ */
+Then('the cart totals should match the database prices', async function () {
+    await CartPage.verifyTotals(ConfigUtils.getDbPath())
+})
+
 // ============================================================================
 // ADDITIONAL UTILITY STEPS (Optional for other scenarios)
 // ============================================================================
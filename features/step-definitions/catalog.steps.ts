@@ -0,0 +1,57 @@
+import { Then } from '@wdio/cucumber-framework'
+import allureReporter from '@wdio/allure-reporter'
+
+import { DbUtils } from '../support/db.utils'
+import { ConfigUtils } from '../support/config.utils'
+import { DiffUtils } from '../support/diff.utils'
+import HomePage from '../pageobjects/home.page'
+
+/**
+ * Step Definitions for the product catalog on the home page.
+ *
+ * Reads every product card through HomePage.getCatalog() and checks it against
+ * the `items` table or for complete rendering.
+ */
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: the catalog should match the items table
+ *
+ * Compares id, name and price of every product card with the `items` table.
+ * Order does not matter, but every item must be shown exactly once.
+ * On mismatch, an expected-vs-actual diff is attached to Allure.
+ */
+Then('the catalog should match the items table', async function () {
+    const catalog = await HomePage.getCatalog()
+    const items = await DbUtils.getItems(ConfigUtils.getDbPath())
+    const diff = DiffUtils.diffTables(items, catalog, ['id', 'name', 'price'])
+
+    if (!diff.matches) {
+        allureReporter.addAttachment('Catalog Diff', diff.text, 'text/plain')
+        throw new Error(`Home page catalog does not match the items table ('-' in DB only, '+' on page only):\n${diff.text}`)
+    }
+    console.log(`✅ Catalog matches all ${items.length} item(s) in the database`)
+})
+
+/**
+ * Then: every product should have an image and an enabled Add to Cart button
+ */
+Then('every product should have an image and an enabled Add to Cart button', async function () {
+    const catalog = await HomePage.getCatalog()
+    const problems = catalog.flatMap((product) => [
+        ...(!product.image?.src ? [`${product.name}: no image`] : []),
+        ...(product.image && !product.image.alt.trim() ? [`${product.name}: image has no alt text`] : []),
+        ...(!product.addToCartEnabled ? [`${product.name}: Add to Cart is disabled`] : []),
+    ])
+
+    if (catalog.length === 0) {
+        throw new Error('No products found on the home page')
+    }
+    if (problems.length > 0) {
+        throw new Error(`Product cards are incomplete:\n${problems.join('\n')}`)
+    }
+    console.log(`✅ All ${catalog.length} product(s) have an image and an enabled Add to Cart button`)
+})
@@ -0,0 +1,74 @@
+import { When, Then, Before } from '@wdio/cucumber-framework'
+import CartPage from '../pageobjects/cart.page'
+import CheckoutPage from '../pageobjects/checkout.page'
+import { Money } from '../support/money'
+
+/**
+ * Step Definitions for the checkout flow.
+ *
+ * Covers the cart-to-checkout navigation and the checkout page. The cart
+ * total is captured when leaving the cart page so the checkout page can be
+ * compared against it.
+ */
+
+// ============================================================================
+// SETUP & TEARDOWN
+// ============================================================================
+
+// Cart total shown on the cart page when the current scenario proceeded to checkout
+let cartTotalAtCheckout: Money | null = null
+
+/**
+ * Before each scenario: Forget the previous scenario's cart total.
+ */
+Before(async function () {
+    cartTotalAtCheckout = null
+})
+
+// ============================================================================
+// WHEN STEPS
+// ============================================================================
+
+/**
+ * When: I proceed to checkout
+ *
+ * Records the cart total, then clicks Checkout on the cart page and waits for
+ * the /checkout URL.
+ */
+When('I proceed to checkout', async function () {
+    cartTotalAtCheckout = await CartPage.getTotalPrice()
+    await CartPage.clickCheckout()
+})
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: I should be on the checkout page
+ */
+Then('I should be on the checkout page', async function () {
+    await CheckoutPage.assertPageTitle()
+})
+
+/**
+ * Then: the checkout total should match the cart total
+ *
+ * Compares to the cent with the total recorded by "I proceed to checkout".
+ */
+Then('the checkout total should match the cart total', async function () {
+    if (cartTotalAtCheckout === null) {
+        throw new Error('No cart total recorded. Use "When I proceed to checkout" first.')
+    }
+
+    const checkoutTotal = await CheckoutPage.getTotalPrice()
+    checkoutTotal.assertEquals(cartTotalAtCheckout, 'Checkout total')
+    console.log(`✅ Checkout total matches cart total: ${checkoutTotal}`)
+})
+
+/**
+ * Then: I should see the order confirmation
+ */
+Then('I should see the order confirmation', async function () {
+    await CheckoutPage.assertThankYouMessageVisible()
+})
@@ -0,0 +1,125 @@
+import { Given, Then, Before, After, DataTable } from '@wdio/cucumber-framework'
+import allureReporter from '@wdio/allure-reporter'
+
+import { DbUtils } from '../support/db.utils'
+import { ConfigUtils } from '../support/config.utils'
+import { FixtureUtils } from '../support/fixture.utils'
+import { DiffUtils } from '../support/diff.utils'
+
+/**
+ * Step Definitions and hooks for database state management.
+ *
+ * Seed files in features/fixtures/ can be applied with the fixture step, and
+ * the `cart` table (joined with `items`) can be compared against a data table.
+ * Scenarios (or whole features) tagged @restore-db get a snapshot of shop.db
+ * before they run and have every table restored afterwards, so changes to
+ * `items` or other tables never leak into later scenarios.
+ */
+
+// ============================================================================
+// SETUP & TEARDOWN
+// ============================================================================
+
+// Snapshot taken for the current @restore-db scenario
+let dbSnapshot: string | null = null
+
+/**
+ * Before each @restore-db scenario: Snapshot the whole database.
+ *
+ * A feature-level tag applies to every scenario in the feature, so each one
+ * starts from the same state. Fails before touching shop.db unless workers
+ * are isolated or run one at a time, since the restore would wipe other
+ * workers' data.
+ */
+Before({ tags: '@restore-db' }, async function () {
+    ConfigUtils.assertExclusiveDb('@restore-db')
+    dbSnapshot = await DbUtils.snapshot(ConfigUtils.getDbPath())
+})
+
+/**
+ * After each @restore-db scenario: Restore the snapshot, even if the scenario failed.
+ */
+After({ tags: '@restore-db' }, async function () {
+    if (!dbSnapshot) {
+        return
+    }
+
+    const dbPath = ConfigUtils.getDbPath()
+    try {
+        await DbUtils.restore(dbPath, dbSnapshot)
+    } finally {
+        dbSnapshot = null
+        // Hook order across files is not guaranteed; do not leave a handle open
+        await DbUtils.close(dbPath)
+    }
+})
+
+// ============================================================================
+// GIVEN STEPS
+// ============================================================================
+
+/**
+ * Given: the "multi-item-cart" fixture is loaded
+ *
+ * Applies features/fixtures/<name>.(yml|yaml|json) to shop.db in one transaction.
+ * Fixtures that change `items` should run under @restore-db. Like @restore-db,
+ * fails unless workers are isolated or run one at a time, since a fixture
+ * replaces the cart and catalog rows other workers may be using.
+ */
+Given('the {string} fixture is loaded', async function (name: string) {
+    ConfigUtils.assertExclusiveDb(`Fixture '${name}'`)
+    try {
+        await FixtureUtils.loadAndApply(ConfigUtils.getDbPath(), name)
+    } catch (error) {
+        throw new Error(`Failed to load fixture '${name}': ${error}`)
+    }
+})
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: the cart table should contain:
+ *   | item_id | name  | quantity |
+ *   | 1       | Koala | 2        |
+ *
+ * Compares the data table against `cart` joined with `items`. Only the columns
+ * in the header are checked (any of item_id, name, quantity, price) and row
+ * order does not matter, but the row sets must match exactly.
+ *
+ * On mismatch, an expected-vs-actual diff is attached to Allure.
+ */
+Then('the cart table should contain:', async function (table: DataTable) {
+    const expected = table.hashes()
+    const columns = table.raw()[0]
+    const allowed = ['item_id', 'name', 'quantity', 'price']
+
+    const unknown = columns.filter((column) => !allowed.includes(column))
+    if (unknown.length > 0) {
+        throw new Error(`Unknown cart table column(s): ${unknown.join(', ')}. Use: ${allowed.join(', ')}`)
+    }
+
+    const actual = await DbUtils.getCartContents(ConfigUtils.getDbPath())
+    const diff = DiffUtils.diffTables(expected, actual, columns)
+
+    if (!diff.matches) {
+        allureReporter.addAttachment('Cart Table Diff', diff.text, 'text/plain')
+        throw new Error(`Cart table does not match expected rows:\n${diff.text}`)
+    }
+    console.log(`✅ Cart table matches ${expected.length} expected row(s)`)
+})
+
+/**
+ * Then: the cart table should be empty
+ */
+Then('the cart table should be empty', async function () {
+    const actual = await DbUtils.getCartContents(ConfigUtils.getDbPath())
+
+    if (actual.length > 0) {
+        const diff = DiffUtils.diffTables([], actual, ['item_id', 'name', 'quantity'])
+        allureReporter.addAttachment('Cart Table Diff', diff.text, 'text/plain')
+        throw new Error(`Expected an empty cart table, found ${actual.length} row(s):\n${diff.text}`)
+    }
+    console.log('✅ Cart table is empty')
+})
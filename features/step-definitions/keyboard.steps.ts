@@ -0,0 +1,156 @@
+import { When, Then, DataTable } from '@wdio/cucumber-framework'
+import allureReporter from '@wdio/allure-reporter'
+
+import { KeyboardUtils, FocusOrder, FocusTarget } from '../support/keyboard.utils'
+import HomePage, { HOME_SELECTORS } from '../pageobjects/home.page'
+import CartPage, { CART_SELECTORS } from '../pageobjects/cart.page'
+import { CHECKOUT_SELECTORS } from '../pageobjects/checkout.page'
+
+/**
+ * Step Definitions for keyboard navigation.
+ *
+ * axe cannot detect keyboard traps or an illogical focus order, so these
+ * steps Tab through the page with WebDriver key actions, record where focus
+ * goes and operate the shop's controls without the mouse.
+ */
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Element names usable in focus order tables, per page. Names that take a
+ * product are written `<name> for "<product>"`.
+ */
+const FOCUS_TARGETS: Record<string, Record<string, (product: string) => string>> = {
+    home: {
+        'cart link': () => HOME_SELECTORS.cartLink,
+        'Add to Cart button': (product) => HOME_SELECTORS.addToCartButton(product),
+    },
+    cart: {
+        'quantity dropdown': (product) => CART_SELECTORS.quantityDropdown(product),
+        'Checkout button': () => CART_SELECTORS.checkoutButton,
+        'Back to Shop link': () => CART_SELECTORS.shopLink,
+    },
+    checkout: {
+        'Back to Shop link': () => CHECKOUT_SELECTORS.shopLink,
+    },
+}
+
+/**
+ * Look up a focus order table entry, e.g. `Add to Cart button for "Koala"`.
+ */
+function resolveFocusTarget(page: string, entry: string): FocusTarget {
+    const targets = FOCUS_TARGETS[page]
+    if (!targets) {
+        throw new Error(`Unknown page '${page}'. Expected one of: ${Object.keys(FOCUS_TARGETS).join(', ')}`)
+    }
+
+    const [, name, product] = entry.match(/^(.*?)(?: for "(.*)")?$/)!
+    const selector = targets[name]
+    if (!selector) {
+        throw new Error(`Unknown element '${name}' on the ${page} page. Expected one of: ${Object.keys(targets).join(', ')}`)
+    }
+    // Selectors that take a product are declared with a parameter
+    if (selector.length > 0 && product === undefined) {
+        throw new Error(`'${name}' needs a product, e.g. ${name} for "Koala"`)
+    }
+    return { name: entry, selector: selector(product ?? '') }
+}
+
+/**
+ * Tab through the current page, attach the focus sequence to Allure and
+ * fail if tabbing got stuck.
+ */
+async function recordFocusOrder(): Promise<FocusOrder> {
+    const order = await KeyboardUtils.recordFocusOrder()
+    const formatted = KeyboardUtils.formatFocusOrder(order)
+    allureReporter.addAttachment('Focus Order', formatted, 'text/plain')
+    console.log(`⌨️ Focus order:\n${formatted}`)
+
+    if (order.end === 'trapped' || order.end === 'limit') {
+        throw new Error(`Keyboard navigation got stuck:\n${formatted}`)
+    }
+    return order
+}
+
+// ============================================================================
+// WHEN STEPS
+// ============================================================================
+
+/**
+ * When: I add "Koala" to the cart using only the keyboard
+ *
+ * Tabs to the product's "Add to Cart" button and presses Enter.
+ */
+When('I add {string} to the cart using only the keyboard', async function (productName: string) {
+    const itemId = await HomePage.getItemIdByProductName(productName)
+    await HomePage.addToCartWithKeyboard(itemId)
+})
+
+/**
+ * When: I change the quantity of "Koala" to 3 using only the keyboard
+ *
+ * Tabs to the row's quantity `select` and types the quantity (0-9).
+ */
+When('I change the quantity of {string} to {int} using only the keyboard', async function (productName: string, quantity: number) {
+    await CartPage.setProductQuantityWithKeyboard(productName, quantity)
+})
+
+/**
+ * When: I check out using only the keyboard
+ *
+ * Tabs to #checkout-button and presses Enter.
+ */
+When('I check out using only the keyboard', async function () {
+    await CartPage.checkoutWithKeyboard()
+})
+
+/**
+ * When: I go back to the shop using only the keyboard
+ *
+ * Tabs to #shop-link and presses Enter.
+ */
+When('I go back to the shop using only the keyboard', async function () {
+    await CartPage.backToShopWithKeyboard()
+})
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: the page should have no keyboard traps
+ *
+ * Tabs from the top of the page until focus wraps around or leaves the
+ * page; fails if it cycles without reaching the rest of the page.
+ */
+Then('the page should have no keyboard traps', { timeout: 60000 }, async function () {
+    const order = await recordFocusOrder()
+    console.log(`✅ No keyboard traps: ${order.stops.length} focusable element(s) reached`)
+})
+
+/**
+ * Then: the focus order on the home page should be:
+ *   | cart link                     |
+ *   | Add to Cart button for "Koala" |
+ *
+ * One element name per row (see FOCUS_TARGETS), in the order Tab should reach
+ * the elements, starting from the top of the page. Every focusable element
+ * must be listed.
+ */
+Then('the focus order on the {word} page should be:', { timeout: 60000 }, async function (page: string, table: DataTable) {
+    const expected = table.raw()
+        .map((row) => row[0].trim())
+        .filter((entry) => entry !== '')
+        .map((entry) => resolveFocusTarget(page, entry))
+    const order = await recordFocusOrder()
+
+    const mismatches = await KeyboardUtils.compareFocusOrder(order, expected)
+    if (mismatches.length > 0) {
+        throw new Error(
+            `Focus order does not match:\n${mismatches.join('\n')}\n\nActual:\n${KeyboardUtils.formatFocusOrder(order)}`
+        )
+    }
+    console.log(`✅ Focus order matches (${expected.length} element(s))`)
+})
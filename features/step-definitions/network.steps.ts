@@ -0,0 +1,74 @@
+import { Given, When, Then, After } from '@wdio/cucumber-framework'
+
+import { NetworkUtils } from '../support/network.utils'
+import HomePage from '../pageobjects/home.page'
+
+/**
+ * Step Definitions for network fault injection.
+ *
+ * Faults apply to requests the browser makes (page loads and the app's own
+ * fetch calls), not to ApiUtils setup calls. They are removed after every
+ * scenario.
+ */
+
+// ============================================================================
+// SETUP & TEARDOWN
+// ============================================================================
+
+/**
+ * After each scenario: Remove any network faults it added.
+ */
+After(async function () {
+    await NetworkUtils.restoreAll()
+})
+
+// ============================================================================
+// GIVEN STEPS
+// ============================================================================
+
+/**
+ * Given: the "/add-to-cart" request fails with status 500
+ */
+Given('the {string} request fails with status {int}', async function (urlPath: string, status: number) {
+    await NetworkUtils.failWithStatus(urlPath, status)
+})
+
+/**
+ * Given: the "/add-to-cart" request is delayed by 3 seconds
+ */
+Given('the {string} request is delayed by {int} second(s)', async function (urlPath: string, seconds: number) {
+    await NetworkUtils.delay(urlPath, seconds * 1000)
+})
+
+/**
+ * Given: the "/add-to-cart" request is aborted
+ *
+ * Simulates a dropped connection: the browser gets no response at all.
+ */
+Given('the {string} request is aborted', async function (urlPath: string) {
+    await NetworkUtils.abort(urlPath)
+})
+
+// ============================================================================
+// WHEN STEPS
+// ============================================================================
+
+/**
+ * When: I try to add an item to the cart
+ *
+ * Clicks "Add to Cart" for item 1 without expecting it to succeed.
+ */
+When('I try to add an item to the cart', async function () {
+    await HomePage.addFirstProductToCart()
+})
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: no success notification should appear
+ */
+Then('no success notification should appear', async function () {
+    await HomePage.assertSuccessNotificationNotShown()
+})
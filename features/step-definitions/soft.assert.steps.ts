@@ -0,0 +1,64 @@
+import { Then, Before, BeforeStep, After, Status } from '@wdio/cucumber-framework'
+
+import { SoftAssert } from '../support/soft.assert'
+
+/**
+ * Hooks and steps for scenario-scoped soft assertions.
+ *
+ * Steps record soft failures through SoftAssert instead of throwing. After
+ * the scenario, the failures are attached to Allure and the scenario fails
+ * if any of them is not a known issue. Known issues are labelled with their
+ * ticket and leave the scenario green.
+ */
+
+// ============================================================================
+// SETUP & TEARDOWN
+// ============================================================================
+
+/**
+ * Before each scenario: Forget the previous scenario's soft failures.
+ */
+Before(async function () {
+    SoftAssert.reset()
+})
+
+/**
+ * Before each step: Remember the step text so failures can name it.
+ */
+BeforeStep(async function ({ pickleStep }) {
+    SoftAssert.setCurrentStep(pickleStep.text)
+})
+
+/**
+ * After each scenario: Report soft failures and fail the scenario on any
+ * that are not known issues.
+ *
+ * A scenario that already failed on a hard assertion keeps that error; its
+ * soft failures are still attached.
+ */
+After(async function (scenario) {
+    SoftAssert.attachToReport()
+
+    const { failures, knownIssues } = SoftAssert.getSummary()
+    if (knownIssues.length > 0) {
+        console.warn(`⚠️ ${knownIssues.length} known issue(s) in '${scenario.pickle.name}'`)
+    }
+    if (failures.length > 0 && scenario.result?.status !== Status.FAILED) {
+        SoftAssert.assertAll()
+    }
+})
+
+// ============================================================================
+// THEN STEPS
+// ============================================================================
+
+/**
+ * Then: all soft assertions should have passed
+ *
+ * Fails here instead of at the end of the scenario, e.g. before steps that
+ * would only add noise after an earlier soft failure.
+ */
+Then('all soft assertions should have passed', async function () {
+    SoftAssert.assertAll()
+    console.log('✅ No soft assertion failures so far')
+})
@@ -0,0 +1,262 @@
+import { IMPACT_LEVELS, ImpactLevel } from './accessibility.utils';
+import type { PageA11ySummary, PageFinding } from './a11y.report';
+
+/**
+ * All nodes that violate one axe rule, across pages.
+ */
+interface RuleGroup {
+    rule: string;
+    impact: ImpactLevel | null;
+    help: string;
+    helpUrl: string;
+    nodes: Array<PageFinding & { page: string }>;
+}
+
+const STANDARD = 'TAC 213 / WCAG 2.1 AA';
+
+// SARIF result level for each axe impact
+const SARIF_LEVELS: Record<ImpactLevel, 'error' | 'warning' | 'note'> = {
+    critical: 'error',
+    serious: 'error',
+    moderate: 'warning',
+    minor: 'note',
+};
+
+/**
+ * Machine-readable exports of the merged accessibility page summaries:
+ * an HTML compliance report, JUnit XML and SARIF 2.1.0.
+ *
+ * New violations are failures (JUnit) or unsuppressed results (SARIF); known
+ * ones are skipped tests or results suppressed with their ticket.
+ */
+export class A11yExport {
+    /**
+     * Aggregated HTML compliance report: totals per page, then per-rule
+     * counts with the affected nodes and remediation links.
+     *
+     * @param pages Merged page summaries.
+     * @param engineVersion axe-core version the audits ran with.
+     * @returns A self-contained HTML document.
+     */
+    static toHtml(pages: PageA11ySummary[], engineVersion: string): string {
+        const rules = this.groupByRule(pages);
+        const count = (status: PageFinding['status']) =>
+            pages.reduce((sum, page) => sum + page.findings.filter((finding) => finding.status === status).length, 0);
+
+        const pageRows = pages.map((page) => `
+            <tr>
+                <td><code>${escape(page.page)}</code></td>
+                <td>${page.audits}</td>
+                <td>${page.states.map(escape).join('<br>')}</td>
+                <td class="${page.findings.some((finding) => finding.status === 'new') ? 'new' : 'ok'}">${page.findings.filter((finding) => finding.status === 'new').length}</td>
+                <td>${page.findings.filter((finding) => finding.status === 'known').length}</td>
+            </tr>`).join('');
+
+        const ruleRows = rules.map((group) => {
+            const newNodes = group.nodes.filter((node) => node.status === 'new').length;
+            const pagesHit = [...new Set(group.nodes.map((node) => node.page))];
+            return `
+            <tr>
+                <td><code>${escape(group.rule)}</code></td>
+                <td class="impact-${group.impact ?? 'unknown'}">${group.impact ?? 'unknown'}</td>
+                <td>${escape(group.help)}</td>
+                <td class="${newNodes > 0 ? 'new' : 'ok'}">${newNodes}</td>
+                <td>${group.nodes.length - newNodes}</td>
+                <td>${pagesHit.map((page) => `<code>${escape(page)}</code>`).join(' ')}</td>
+                <td><a href="${escape(group.helpUrl)}">Remediation</a></td>
+            </tr>`;
+        }).join('');
+
+        const details = rules.map((group) => `
+        <details${group.nodes.some((node) => node.status === 'new') ? ' open' : ''}>
+            <summary><code>${escape(group.rule)}</code> — ${escape(group.help)} (${group.nodes.length} node(s))</summary>
+            <p><a href="${escape(group.helpUrl)}">${escape(group.helpUrl)}</a></p>
+            <table>
+                <tr><th>Status</th><th>Page</th><th>Target</th><th>HTML</th><th>Seen in</th></tr>${group.nodes.map((node) => `
+                <tr>
+                    <td class="${node.status}">${node.status === 'known' ? `known (${escape(node.ticket ?? '')})` : 'new'}</td>
+                    <td><code>${escape(node.page)}</code></td>
+                    <td><code>${escape(node.target)}</code></td>
+                    <td><code>${escape(node.html)}</code></td>
+                    <td>${node.states.map(escape).join('<br>')} (${node.occurrences} audit(s))</td>
+                </tr>`).join('')}
+            </table>
+        </details>`).join('');
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Accessibility Compliance Report</title>
+    <style>
+        body { font-family: sans-serif; margin: 2rem; color: #222; }
+        table { border-collapse: collapse; margin: 1rem 0; width: 100%; }
+        th, td { border: 1px solid #ccc; padding: 0.4rem; text-align: left; vertical-align: top; }
+        th { background: #f0f0f0; }
+        code { font-size: 0.85rem; word-break: break-all; }
+        .new { color: #b00020; font-weight: bold; }
+        .ok { color: #1b5e20; }
+        .known { color: #8a6d00; }
+        .impact-critical, .impact-serious { color: #b00020; }
+        .impact-moderate { color: #8a6d00; }
+        details { margin: 0.5rem 0; }
+    </style>
+</head>
+<body>
+    <h1>🛡️ Accessibility Compliance Report</h1>
+    <p>Compliance Standard: ${STANDARD}<br>
+        Engine: axe-core ${escape(engineVersion || 'unknown')}<br>
+        Generated: ${escape(new Date().toLocaleString())}</p>
+    <p><strong>${pages.length}</strong> page(s), <strong>${pages.reduce((sum, page) => sum + page.audits, 0)}</strong> audit(s),
+        <span class="${count('new') > 0 ? 'new' : 'ok'}">${count('new')} new violation(s)</span>,
+        <span class="known">${count('known')} known</span></p>
+
+    <h2>Pages</h2>
+    <table>
+        <tr><th>Page</th><th>Audits</th><th>UI states</th><th>New</th><th>Known</th></tr>${pageRows}
+    </table>
+
+    <h2>Rules</h2>
+    ${rules.length === 0 ? '<p class="ok">✅ No violations found.</p>' : `<table>
+        <tr><th>Rule</th><th>Impact</th><th>Description</th><th>New nodes</th><th>Known nodes</th><th>Pages</th><th>Help</th></tr>${ruleRows}
+    </table>
+
+    <h2>Affected Nodes</h2>${details}`}
+</body>
+</html>
+`;
+    }
+
+    /**
+     * JUnit XML: one test suite per page and one test case per violated rule.
+     * A page without violations gets a single passing test case.
+     *
+     * @param pages Merged page summaries.
+     * @returns The XML document.
+     */
+    static toJUnit(pages: PageA11ySummary[]): string {
+        let tests = 0;
+        let failures = 0;
+        let skipped = 0;
+
+        const suites = pages.map((page) => {
+            const byRule = new Map<string, PageFinding[]>();
+            for (const finding of page.findings) {
+                byRule.set(finding.rule, [...(byRule.get(finding.rule) ?? []), finding]);
+            }
+
+            const classname = `accessibility.${page.page}`;
+            const cases = [...byRule.entries()].map(([rule, findings]) => {
+                const newFindings = findings.filter((finding) => finding.status === 'new');
+                const nodes = (list: PageFinding[]) => list.map((finding) => `${finding.target}: ${finding.html}`).join('\n');
+                if (newFindings.length > 0) {
+                    return `
+        <testcase classname="${escape(classname)}" name="${escape(rule)}">
+            <failure message="${escape(`${findings[0].help} (${newFindings.length} node(s))`)}" type="${findings[0].impact ?? 'unknown'}">${escape(`${nodes(newFindings)}\nRemediation: ${findings[0].helpUrl}`)}</failure>
+        </testcase>`;
+                }
+                const tickets = [...new Set(findings.map((finding) => finding.ticket))].join(', ');
+                return `
+        <testcase classname="${escape(classname)}" name="${escape(rule)}">
+            <skipped message="${escape(`Known issue ${tickets}: ${findings[0].help}`)}"/>
+        </testcase>`;
+            });
+            if (cases.length === 0) {
+                cases.push(`
+        <testcase classname="${escape(classname)}" name="no violations"/>`);
+            }
+
+            const pageFailures = [...byRule.values()].filter((findings) => findings.some((finding) => finding.status === 'new')).length;
+            const pageSkipped = byRule.size - pageFailures;
+            tests += cases.length;
+            failures += pageFailures;
+            skipped += pageSkipped;
+            return `
+    <testsuite name="${escape(page.page)}" tests="${cases.length}" failures="${pageFailures}" skipped="${pageSkipped}">${cases.join('')}
+    </testsuite>`;
+        });
+
+        return `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites name="Accessibility (${STANDARD})" tests="${tests}" failures="${failures}" skipped="${skipped}">${suites.join('')}
+</testsuites>
+`;
+    }
+
+    /**
+     * SARIF 2.1.0 log with one result per violating node. Known violations
+     * carry an accepted external suppression naming their ticket.
+     *
+     * @param pages Merged page summaries.
+     * @param engineVersion axe-core version the audits ran with.
+     * @returns The SARIF log.
+     */
+    static toSarif(pages: PageA11ySummary[], engineVersion: string): object {
+        const rules = this.groupByRule(pages);
+
+        return {
+            $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+            version: '2.1.0',
+            runs: [{
+                tool: {
+                    driver: {
+                        name: 'axe-core',
+                        version: engineVersion || undefined,
+                        informationUri: 'https://github.com/dequelabs/axe-core',
+                        rules: rules.map((group) => ({
+                            id: group.rule,
+                            shortDescription: { text: group.help },
+                            helpUri: group.helpUrl,
+                            properties: { impact: group.impact },
+                        })),
+                    },
+                },
+                results: rules.flatMap((group, ruleIndex) => group.nodes.map((node) => ({
+                    ruleId: group.rule,
+                    ruleIndex,
+                    level: node.impact ? SARIF_LEVELS[node.impact] : 'error',
+                    message: { text: `${group.help} (${node.target} on ${node.page})` },
+                    // Code scanning needs a repository file: the feature that ran the audit.
+                    // The page and element, which are not files, go in the logical locations.
+                    locations: [{
+                        physicalLocation: {
+                            artifactLocation: { uri: node.features[0], uriBaseId: '%SRCROOT%' },
+                            region: { startLine: 1 },
+                        },
+                        logicalLocations: [
+                            { name: node.page, kind: 'resource' },
+                            { name: node.target, fullyQualifiedName: `${node.page} ${node.target}`, kind: 'element' },
+                        ],
+                    }],
+                    partialFingerprints: { accessibilityFinding: `${node.page}|${group.rule}|${node.target}` },
+                    ...(node.status === 'known' && {
+                        suppressions: [{ kind: 'external', status: 'accepted', justification: `Known issue ${node.ticket}` }],
+                    }),
+                }))),
+            }],
+        };
+    }
+
+    /**
+     * Group findings from every page by rule, most severe rule first.
+     */
+    private static groupByRule(pages: PageA11ySummary[]): RuleGroup[] {
+        const groups = new Map<string, RuleGroup>();
+        for (const page of pages) {
+            for (const finding of page.findings) {
+                let group = groups.get(finding.rule);
+                if (!group) {
+                    group = { rule: finding.rule, impact: finding.impact, help: finding.help, helpUrl: finding.helpUrl, nodes: [] };
+                    groups.set(finding.rule, group);
+                }
+                group.nodes.push({ ...finding, page: page.page });
+            }
+        }
+
+        const severity = (impact: ImpactLevel | null) => (impact ? IMPACT_LEVELS.indexOf(impact) : IMPACT_LEVELS.length);
+        return [...groups.values()].sort((a, b) => severity(b.impact) - severity(a.impact) || a.rule.localeCompare(b.rule));
+    }
+}
+
+function escape(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
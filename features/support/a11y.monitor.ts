@@ -0,0 +1,218 @@
+import * as path from 'path';
+import { browser } from '@wdio/globals';
+import allureReporter from '@wdio/allure-reporter';
+
+import { AccessibilityUtils, AuditFinding, AuditReport } from './accessibility.utils';
+import { A11yReport, PageA11ySummary, PageFinding } from './a11y.report';
+import { AxeUtils } from './axe.utils';
+import { ConfigUtils } from './config.utils';
+import { SoftAssert } from './soft.assert';
+
+/**
+ * Automatic accessibility audits at page-object checkpoints.
+ *
+ * The page objects call checkpoint() after each navigation and key
+ * interaction. While a scenario is being monitored (tagged @a11y, or every
+ * scenario with the `a11yAudit` setting) each checkpoint runs an axe audit
+ * with the default rules and the accessibility baseline; otherwise it does
+ * nothing.
+ *
+ * Findings are deduplicated by page, rule and target: each new violation is
+ * recorded as a soft failure once per scenario, and known ones as known
+ * issues. Across the run, every audit (including the explicit accessibility
+ * steps, via record()) is aggregated per page and its raw axe results saved,
+ * for A11yReportService to merge into the reports in logs/a11y/.
+ */
+export class A11yMonitor {
+    private static scenario?: string;
+    private static feature = '';
+    private static automatic = false;
+    private static auditedStates = new Set<string>();
+    private static reported = new Set<string>();
+    private static scenarioLog: string[] = [];
+    private static pages = new Map<string, PageA11ySummary>();
+
+    /**
+     * Start tracking a scenario.
+     *
+     * @param scenarioName Name shown in the reports.
+     * @param featureUri The scenario's feature file (SARIF reports findings against it).
+     * @param automatic Whether checkpoints should audit (@a11y or the a11yAudit setting).
+     */
+    static start(scenarioName: string, featureUri: string, automatic: boolean): void {
+        this.scenario = scenarioName;
+        this.feature = path.relative(process.cwd(), path.resolve(featureUri)).split(path.sep).join('/');
+        this.automatic = automatic;
+        this.auditedStates.clear();
+        this.reported.clear();
+        this.scenarioLog = [];
+    }
+
+    /**
+     * Stop monitoring and attach the scenario's checkpoint log to Allure.
+     */
+    static stop(): void {
+        if (!this.scenario) {
+            return;
+        }
+        if (this.scenarioLog.length > 0) {
+            allureReporter.addAttachment('Accessibility Checkpoints', this.scenarioLog.join('\n'), 'text/plain');
+        }
+        this.scenario = undefined;
+        this.feature = '';
+        this.automatic = false;
+    }
+
+    /**
+     * @returns true while checkpoints audit automatically.
+     */
+    static isEnabled(): boolean {
+        return this.automatic;
+    }
+
+    /**
+     * Load axe into the current page ahead of a short-lived UI state (e.g. an
+     * auto-hiding notification), so the checkpoint for it audits at once
+     * instead of spending the state's lifetime on injection. A no-op when
+     * monitoring is off; failures are logged and skipped.
+     */
+    static async prepare(): Promise<void> {
+        if (!this.automatic) {
+            return;
+        }
+        try {
+            await AxeUtils.inject();
+        } catch (error) {
+            console.warn(`⚠️ Accessibility checkpoint preparation skipped: ${error}`);
+        }
+    }
+
+    /**
+     * Audit the current page if monitoring is on.
+     *
+     * The same state on the same page is audited once per scenario. An audit
+     * that fails to run (e.g. the page navigated away mid-audit) is logged and
+     * skipped rather than failing the interaction that triggered it.
+     *
+     * @param state Describes the UI state (e.g. "CartPage: quantity changed").
+     * @param include Selectors to audit instead of the whole document, for
+     *                states that only change (and only last as long as) one element.
+     */
+    static async checkpoint(state: string, include: string[] = []): Promise<void> {
+        if (!this.automatic) {
+            return;
+        }
+
+        let report;
+        try {
+            const stateKey = `${new URL(await browser.getUrl()).pathname}|${state}`;
+            if (this.auditedStates.has(stateKey)) {
+                return;
+            }
+            this.auditedStates.add(stateKey);
+
+            report = await AccessibilityUtils.audit({ include }, ConfigUtils.getA11yBaselinePath());
+        } catch (error) {
+            console.warn(`⚠️ Accessibility checkpoint '${state}' skipped: ${error}`);
+            return;
+        }
+
+        this.record(report, state);
+        for (const finding of [...report.newViolations, ...report.knownViolations]) {
+            this.report(report.page, finding, state);
+        }
+
+        this.scenarioLog.push(
+            `${report.page} — ${state}: ${report.newViolations.length} new, ${report.knownViolations.length} known violation(s)`
+        );
+        console.log(`🛡️ Accessibility checkpoint '${state}' on ${report.page}: ${report.newViolations.length} new violation(s)`);
+    }
+
+    /**
+     * Add an audit to the per-page summaries and save its raw axe results.
+     *
+     * @param report The audit report.
+     * @param state UI state or step that triggered the audit.
+     */
+    static record(report: AuditReport, state: string): void {
+        const scenario = this.scenario ?? 'unknown scenario';
+        const summary = this.getPage(report.page);
+        summary.audits++;
+        summary.states = [...new Set([...summary.states, state])];
+        summary.scenarios = [...new Set([...summary.scenarios, scenario])];
+
+        for (const finding of report.newViolations) {
+            this.aggregate(summary, finding, 'new', state);
+        }
+        for (const finding of report.knownViolations) {
+            this.aggregate(summary, finding, 'known', state);
+        }
+
+        A11yReport.writeRawAudit(this.workerId(), {
+            page: report.page,
+            url: report.url,
+            state,
+            scenario,
+            feature: this.feature,
+            timestamp: new Date().toISOString(),
+            options: report.options,
+            results: report.results,
+        });
+    }
+
+    /**
+     * @returns The per-page summaries gathered by this worker so far.
+     */
+    static getPageSummaries(): PageA11ySummary[] {
+        return [...this.pages.values()];
+    }
+
+    /**
+     * Write this worker's page summaries for A11yReportService. Call once
+     * when the worker finishes.
+     */
+    static flush(): void {
+        A11yReport.writePartial(this.workerId(), this.getPageSummaries());
+    }
+
+    private static workerId(): string {
+        return process.env.WDIO_WORKER_ID ?? String(process.pid);
+    }
+
+    private static getPage(page: string): PageA11ySummary {
+        let summary = this.pages.get(page);
+        if (!summary) {
+            summary = { page, audits: 0, states: [], scenarios: [], findings: [] };
+            this.pages.set(page, summary);
+        }
+        return summary;
+    }
+
+    private static aggregate(summary: PageA11ySummary, finding: AuditFinding, status: PageFinding['status'], state: string): void {
+        const existing = summary.findings.find((candidate) => candidate.rule === finding.rule && candidate.target === finding.target);
+        if (existing) {
+            existing.occurrences++;
+            existing.states = [...new Set([...existing.states, state])];
+            existing.features = [...new Set([...existing.features, this.feature])];
+            return;
+        }
+        summary.findings.push({ ...finding, status, states: [state], occurrences: 1, features: [this.feature] });
+    }
+
+    /**
+     * Record a violation as a soft failure (or known issue) the first time
+     * this scenario sees it.
+     */
+    private static report(page: string, finding: AuditFinding, state: string): void {
+        const key = `${page}|${finding.rule}|${finding.target}`;
+        if (this.reported.has(key)) {
+            return;
+        }
+        this.reported.add(key);
+
+        SoftAssert.fail(
+            `[${(finding.impact ?? 'unknown').toUpperCase()}] ${finding.rule}: ${finding.help} (${finding.target} on ${page}, ${state})`,
+            { knownIssue: finding.ticket }
+        );
+    }
+}
@@ -0,0 +1,248 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import type { AxeResults } from 'axe-core';
+
+import type { AuditFinding, AuditOptions } from './accessibility.utils';
+import { A11yExport } from './a11y.export';
+
+/**
+ * A violation seen on a page, deduplicated by rule and target across audits.
+ */
+export interface PageFinding extends AuditFinding {
+    /** 'known' if the baseline matched it, otherwise 'new'. */
+    status: 'new' | 'known';
+    /** UI states (checkpoints) in which it was seen. */
+    states: string[];
+    /** How many audits found it. */
+    occurrences: number;
+    /** Feature files (relative to the project root) whose scenarios found it. */
+    features: string[];
+}
+
+/**
+ * Everything the automatic audits found on one page (URL path).
+ */
+export interface PageA11ySummary {
+    page: string;
+    /** Number of audits run on the page. */
+    audits: number;
+    /** UI states audited (e.g. "CartPage: quantity changed"). */
+    states: string[];
+    scenarios: string[];
+    findings: PageFinding[];
+}
+
+/**
+ * One audit as run, with the unmodified axe results.
+ */
+export interface RawAudit {
+    page: string;
+    url: string;
+    /** UI state or step that triggered the audit. */
+    state: string;
+    scenario: string;
+    /** Feature file of the scenario, relative to the project root. */
+    feature: string;
+    timestamp: string;
+    options: Required<AuditOptions>;
+    results: AxeResults;
+}
+
+/**
+ * Where the accessibility audits write their results.
+ */
+export const A11Y_REPORT_DIR = path.join('logs', 'a11y');
+const PARTIALS_DIR = path.join(A11Y_REPORT_DIR, 'partials');
+const RAW_DIR = path.join(A11Y_REPORT_DIR, 'raw');
+const PAGES_DIR = path.join(A11Y_REPORT_DIR, 'pages');
+
+/**
+ * Aggregated compliance reports for the accessibility audits.
+ *
+ * Workers save each audit's raw axe results to logs/a11y/raw/ as it runs,
+ * and their page summaries to logs/a11y/partials/ when they finish.
+ * A11yReportService merges them in the launcher and writes:
+ *
+ * - pages/<page>.txt and pages/<page>.json: one report and the raw axe results per page
+ * - report.html: the aggregated compliance report (see A11yExport)
+ * - junit.xml and results.sarif: for CI annotations
+ */
+export class A11yReport {
+    /**
+     * Remove results left over from a previous run.
+     */
+    static clean(): void {
+        fs.rmSync(A11Y_REPORT_DIR, { recursive: true, force: true });
+    }
+
+    /**
+     * Save one worker's page summaries for the launcher to merge.
+     *
+     * @param workerId Unique id of the worker (used as the file name).
+     * @param summaries The worker's page summaries.
+     */
+    static writePartial(workerId: string, summaries: PageA11ySummary[]): void {
+        if (summaries.length === 0) {
+            return;
+        }
+        fs.mkdirSync(PARTIALS_DIR, { recursive: true });
+        fs.writeFileSync(path.join(PARTIALS_DIR, `${workerId}.json`), JSON.stringify(summaries, null, 2));
+    }
+
+    /**
+     * Save one audit's raw axe results under its page.
+     *
+     * @param workerId Unique id of the worker (part of the file name).
+     * @param audit The audit.
+     */
+    static writeRawAudit(workerId: string, audit: RawAudit): void {
+        const dir = path.join(RAW_DIR, this.slug(audit.page));
+        fs.mkdirSync(dir, { recursive: true });
+        const index = fs.readdirSync(dir).length;
+        fs.writeFileSync(path.join(dir, `${workerId}-${index}.json`), JSON.stringify(audit));
+    }
+
+    /**
+     * Read the raw audits saved for a page, oldest first.
+     *
+     * @param page Page path (e.g. "/cart").
+     * @returns The raw audits.
+     */
+    static readRawAudits(page: string): RawAudit[] {
+        const dir = path.join(RAW_DIR, this.slug(page));
+        if (!fs.existsSync(dir)) {
+            return [];
+        }
+        return fs.readdirSync(dir)
+            .map((file) => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8')) as RawAudit)
+            .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    }
+
+    /**
+     * Read every worker's page summaries.
+     *
+     * @returns One list of summaries per worker.
+     */
+    static readPartials(): PageA11ySummary[][] {
+        if (!fs.existsSync(PARTIALS_DIR)) {
+            return [];
+        }
+        return fs.readdirSync(PARTIALS_DIR)
+            .filter((file) => file.endsWith('.json'))
+            .map((file) => JSON.parse(fs.readFileSync(path.join(PARTIALS_DIR, file), 'utf-8')) as PageA11ySummary[]);
+    }
+
+    /**
+     * Merge page summaries (e.g. from several workers), deduplicating
+     * findings by page, rule and target.
+     *
+     * @param summaries Summaries to merge, in any grouping.
+     * @returns One summary per page, sorted by path.
+     */
+    static merge(summaries: PageA11ySummary[]): PageA11ySummary[] {
+        const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+        const pages = new Map<string, PageA11ySummary>();
+
+        for (const summary of summaries) {
+            const merged = pages.get(summary.page);
+            if (!merged) {
+                pages.set(summary.page, { ...summary, findings: summary.findings.map((finding) => ({ ...finding })) });
+                continue;
+            }
+
+            merged.audits += summary.audits;
+            merged.states = union(merged.states, summary.states);
+            merged.scenarios = union(merged.scenarios, summary.scenarios);
+            for (const finding of summary.findings) {
+                const existing = merged.findings.find((candidate) => this.key(candidate) === this.key(finding));
+                if (existing) {
+                    existing.states = union(existing.states, finding.states);
+                    existing.occurrences += finding.occurrences;
+                    existing.features = union(existing.features, finding.features);
+                } else {
+                    merged.findings.push({ ...finding });
+                }
+            }
+        }
+        return [...pages.values()].sort((a, b) => a.page.localeCompare(b.page));
+    }
+
+    /**
+     * Merge all partials and write the per-page reports and raw results,
+     * the HTML report and the JUnit and SARIF exports.
+     *
+     * @returns The merged page summaries (empty if no audits ran).
+     */
+    static writeReports(): PageA11ySummary[] {
+        const pages = this.merge(this.readPartials().flat());
+        if (pages.length === 0) {
+            return pages;
+        }
+
+        fs.mkdirSync(PAGES_DIR, { recursive: true });
+        let engineVersion = '';
+        for (const summary of pages) {
+            const audits = this.readRawAudits(summary.page);
+            engineVersion ||= audits[0]?.results.testEngine.version ?? '';
+            fs.writeFileSync(path.join(PAGES_DIR, `${this.slug(summary.page)}.txt`), this.formatPageReport(summary));
+            fs.writeFileSync(path.join(PAGES_DIR, `${this.slug(summary.page)}.json`), JSON.stringify({ ...summary, rawAudits: audits }, null, 2));
+        }
+
+        fs.writeFileSync(path.join(A11Y_REPORT_DIR, 'report.html'), A11yExport.toHtml(pages, engineVersion));
+        fs.writeFileSync(path.join(A11Y_REPORT_DIR, 'junit.xml'), A11yExport.toJUnit(pages));
+        fs.writeFileSync(path.join(A11Y_REPORT_DIR, 'results.sarif'), JSON.stringify(A11yExport.toSarif(pages, engineVersion), null, 2));
+
+        const newCount = pages.reduce((sum, summary) => sum + summary.findings.filter((finding) => finding.status === 'new').length, 0);
+        console.log(`🛡️ Accessibility reports for ${pages.length} page(s) written to ${A11Y_REPORT_DIR} (${newCount} new violation(s))`);
+        return pages;
+    }
+
+    /**
+     * Format one page's summary as a compliance report.
+     *
+     * @param summary The page summary.
+     * @returns The report text.
+     */
+    static formatPageReport(summary: PageA11ySummary): string {
+        const newFindings = summary.findings.filter((finding) => finding.status === 'new');
+        const known = summary.findings.filter((finding) => finding.status === 'known');
+        const describe = (finding: PageFinding) =>
+            `[${(finding.impact ?? 'unknown').toUpperCase()}] ${finding.rule}: ${finding.help}\n` +
+            `  REMEDIATION: ${finding.helpUrl}\n` +
+            `  TARGET ELEMENT: ${finding.target}\n` +
+            `  SEEN IN: ${finding.states.join('; ')} (${finding.occurrences} audit(s))`;
+
+        return [
+            `🛡️ ACCESSIBILITY COMPLIANCE REPORT: ${summary.page}`,
+            `Generated: ${new Date().toLocaleString()}`,
+            `Compliance Standard: TAC 213 / WCAG 2.1 AA`,
+            `Audits: ${summary.audits} across ${summary.scenarios.length} scenario(s)`,
+            `------------------------------------------------`,
+            `UI STATES AUDITED (${summary.states.length}):`,
+            ...summary.states.map((state) => `- ${state}`),
+
+            newFindings.length > 0 ? `\n❌ NEW COMPLIANCE VIOLATIONS (${newFindings.length}):` : '\n✅ NO NEW VIOLATIONS FOUND',
+            ...newFindings.map((finding) => `✖ ${describe(finding)}`),
+
+            ...(known.length > 0 ? [`\n⚠️ KNOWN COMPLIANCE DEBT (${known.length}):`] : []),
+            ...known.map((finding) => `✖ ${finding.ticket} ${describe(finding)}`),
+
+            `\nSCENARIOS:`,
+            ...summary.scenarios.map((scenario) => `- ${scenario}`),
+            `\n------------------------------------------------`,
+            `END OF COMPLIANCE REPORT`,
+        ].join('\n');
+    }
+
+    /**
+     * File name for a page path ("/" -> "home", "/cart" -> "cart").
+     */
+    static slug(page: string): string {
+        return page.replace(/^\/+|\/+$/g, '').replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'home';
+    }
+
+    private static key(finding: PageFinding): string {
+        return `${finding.rule}|${finding.target}`;
+    }
+}
@@ -0,0 +1,18 @@
+import { A11yReport } from './a11y.report';
+
+/**
+ * WebdriverIO launcher service for the automatic (@a11y) accessibility audits.
+ *
+ * onPrepare clears logs/a11y/ so reports only cover this run; onComplete
+ * merges the summaries written by each worker (A11yMonitor.flush) and writes
+ * one compliance report per page.
+ */
+export default class A11yReportService {
+    async onPrepare(): Promise<void> {
+        A11yReport.clean();
+    }
+
+    async onComplete(): Promise<void> {
+        A11yReport.writeReports();
+    }
+}
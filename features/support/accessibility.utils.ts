@@ -0,0 +1,319 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { browser } from '@wdio/globals';
+import type { AxeResults, ContextObject, NodeResult, Result } from 'axe-core';
+
+import { AxeUtils } from './axe.utils';
+
+/**
+ * axe impact levels, least severe first.
+ */
+export type ImpactLevel = 'minor' | 'moderate' | 'serious' | 'critical';
+
+export const IMPACT_LEVELS: readonly ImpactLevel[] = ['minor', 'moderate', 'serious', 'critical'];
+
+/**
+ * Rule tags audited when a step does not name any (WCAG 2.1 AA + Section 508).
+ */
+export const DEFAULT_A11Y_TAGS: readonly string[] = ['wcag2a', 'wcag2aa', 'wcag21aa', 'section508'];
+
+/**
+ * A known violation in the baseline file: one rule on one element.
+ */
+export interface BaselineEntry {
+    /** axe rule id (e.g. "html-has-lang"). */
+    rule: string;
+    /** axe target selector of the element, as shown in the audit log (e.g. "html"). */
+    target: string;
+    /** Ticket tracking the fix (e.g. "MISSING-LANG-ATTRIBUTE"). */
+    ticket: string;
+    /** Path the entry applies to (e.g. "/cart"); omit to match every page. */
+    page?: string;
+    note?: string;
+}
+
+/**
+ * Contents of the baseline file (features/a11y/baseline.yml by default).
+ */
+export interface A11yBaseline {
+    violations: BaselineEntry[];
+}
+
+/**
+ * What to audit and which violations count.
+ */
+export interface AuditOptions {
+    /** axe rule tags to run (default DEFAULT_A11Y_TAGS). */
+    tags?: string[];
+    /** Selectors to audit (default: the whole document). */
+    include?: string[];
+    /** Selectors to leave out. */
+    exclude?: string[];
+    /** Ignore violations less severe than this (default: report all). */
+    impact?: ImpactLevel;
+}
+
+/**
+ * One violation on one element.
+ */
+export interface AuditFinding {
+    rule: string;
+    impact: ImpactLevel | null;
+    help: string;
+    helpUrl: string;
+    target: string;
+    html: string;
+    /** Ticket from the matching baseline entry, for known violations. */
+    ticket?: string;
+}
+
+/**
+ * Result of AccessibilityUtils.audit().
+ */
+export interface AuditReport {
+    url: string;
+    /** Path of the audited page (e.g. "/cart"), used to match baseline entries. */
+    page: string;
+    options: Required<AuditOptions>;
+    baselinePath: string;
+    results: AxeResults;
+    /** Violations not in the baseline; these fail the build. */
+    newViolations: AuditFinding[];
+    /** Violations matched by a baseline entry. */
+    knownViolations: AuditFinding[];
+    /** Violations ignored because they are below the impact threshold. */
+    belowThreshold: AuditFinding[];
+    /**
+     * Baseline entries for this page whose element now passes their rule, so
+     * they can be removed. Entries this audit could not judge (rule not run,
+     * element out of scope, finding below the threshold) are not included.
+     */
+    staleBaseline: BaselineEntry[];
+}
+
+const OPTION_KEYS = ['tags', 'include', 'exclude', 'impact'];
+
+/**
+ * Configurable axe audits checked against a baseline of known violations.
+ *
+ * Each violating element is matched against the baseline by rule id, target
+ * selector and (optionally) page. Only unmatched violations are new; matched
+ * ones are reported against their ticket. The baseline path comes from the
+ * `a11yBaseline` setting (A11Y_BASELINE / --a11y-baseline).
+ */
+export class AccessibilityUtils {
+    private static baselines = new Map<string, BaselineEntry[]>();
+
+    /**
+     * Parse step parameters (e.g. a Gherkin rows-hash data table) into audit options.
+     * List values are comma-separated.
+     *
+     * @param raw Keys `tags`, `include`, `exclude` and/or `impact`.
+     * @returns The audit options.
+     * @throws Error on an unknown key or impact level.
+     */
+    static parseOptions(raw: Record<string, string>): AuditOptions {
+        const list = (value: string | undefined) =>
+            value === undefined ? undefined : value.split(',').map((part) => part.trim()).filter(Boolean);
+
+        const unknown = Object.keys(raw).filter((key) => !OPTION_KEYS.includes(key));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown accessibility option(s): ${unknown.join(', ')} (expected ${OPTION_KEYS.join(', ')})`);
+        }
+
+        const impact = raw.impact?.trim().toLowerCase();
+        if (impact !== undefined && !IMPACT_LEVELS.includes(impact as ImpactLevel)) {
+            throw new Error(`Unknown impact '${raw.impact}' (expected one of ${IMPACT_LEVELS.join(', ')})`);
+        }
+
+        return {
+            ...(raw.tags !== undefined && { tags: list(raw.tags) }),
+            ...(raw.include !== undefined && { include: list(raw.include) }),
+            ...(raw.exclude !== undefined && { exclude: list(raw.exclude) }),
+            ...(impact !== undefined && { impact: impact as ImpactLevel }),
+        };
+    }
+
+    /**
+     * Read and validate a baseline file (.yml, .yaml or .json). Results are
+     * cached per path for the rest of the run.
+     *
+     * @param filePath Path to the baseline file; '' means no baseline.
+     * @returns The baseline entries (empty if the path is '').
+     * @throws Error if the file does not exist or is invalid.
+     */
+    static loadBaseline(filePath: string): BaselineEntry[] {
+        if (!filePath) {
+            return [];
+        }
+        const cached = this.baselines.get(filePath);
+        if (cached) {
+            return cached;
+        }
+
+        if (!fs.existsSync(filePath)) {
+            throw new Error(`Accessibility baseline not found: ${filePath}`);
+        }
+        const raw = fs.readFileSync(filePath, 'utf-8');
+        const baseline = (filePath.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw)) as A11yBaseline;
+        this.validateBaseline(filePath, baseline);
+
+        this.baselines.set(filePath, baseline.violations);
+        return baseline.violations;
+    }
+
+    /**
+     * Audit the current page and split the violations into new and known.
+     *
+     * @param options Tags, scope and impact threshold.
+     * @param baselinePath Baseline file to match against ('' for none).
+     * @returns The report.
+     */
+    static async audit(options: AuditOptions = {}, baselinePath: string = ''): Promise<AuditReport> {
+        const resolved: Required<AuditOptions> = {
+            tags: options.tags?.length ? options.tags : [...DEFAULT_A11Y_TAGS],
+            include: options.include ?? [],
+            exclude: options.exclude ?? [],
+            impact: options.impact ?? 'minor',
+        };
+        const baseline = this.loadBaseline(baselinePath);
+
+        const results = await AxeUtils.run({ runOnly: { type: 'tag', values: resolved.tags } }, this.toContext(resolved));
+        const url = await browser.getUrl();
+        const page = new URL(url).pathname;
+        const applicable = baseline.filter((entry) => entry.page === undefined || entry.page === page);
+
+        const findings = results.violations.flatMap((violation) => violation.nodes.map((node) => this.toFinding(violation, node)));
+        const threshold = IMPACT_LEVELS.indexOf(resolved.impact);
+        const counted = findings.filter((finding) => this.severity(finding) >= threshold);
+
+        // Rule and element pairs the audit checked and found compliant
+        const passed = new Set(results.passes.flatMap((rule) => rule.nodes.map((node) => `${rule.id}|${this.formatTarget(node)}`)));
+
+        const matched = new Set<BaselineEntry>();
+        const newViolations: AuditFinding[] = [];
+        const knownViolations: AuditFinding[] = [];
+        for (const finding of counted) {
+            const entry = applicable.find((candidate) => candidate.rule === finding.rule && candidate.target === finding.target);
+            if (entry) {
+                matched.add(entry);
+                knownViolations.push({ ...finding, ticket: entry.ticket });
+            } else {
+                newViolations.push(finding);
+            }
+        }
+
+        return {
+            url,
+            page,
+            options: resolved,
+            baselinePath,
+            results,
+            newViolations,
+            knownViolations,
+            belowThreshold: findings.filter((finding) => this.severity(finding) < threshold),
+            staleBaseline: applicable.filter((entry) => !matched.has(entry) && passed.has(`${entry.rule}|${entry.target}`)),
+        };
+    }
+
+    /**
+     * Format a report as the TAC 213 audit log attached to Allure.
+     *
+     * @param report The audit report.
+     * @returns The log text.
+     */
+    static formatAuditLog(report: AuditReport): string {
+        const { results, options } = report;
+        const describe = (finding: AuditFinding) =>
+            `[${(finding.impact ?? 'unknown').toUpperCase()}] ${finding.help}\n` +
+            `  REMEDIATION: ${finding.helpUrl}\n` +
+            `  TARGET ELEMENT: ${finding.target}`;
+
+        return [
+            `🛡️ ACCESSIBILITY COMPLIANCE AUDIT`,
+            `Checked on: ${new Date().toLocaleString()}`,
+            `Compliance Standard: TAC 213 / WCAG 2.1 AA`,
+            `Engine: axe-core ${results.testEngine.version}`,
+            `Page: ${report.url}`,
+            `Rule tags: ${options.tags.join(', ')}`,
+            `Scope: ${options.include.length ? options.include.join(', ') : 'document'}${options.exclude.length ? ` (excluding ${options.exclude.join(', ')})` : ''}`,
+            `Impact threshold: ${options.impact}`,
+            `Baseline: ${report.baselinePath || 'none'}`,
+            `Total Rules Validated: ${results.passes.length + results.violations.length + results.incomplete.length}`,
+            `------------------------------------------------`,
+            `✅ PASSED RULES (${results.passes.length}):`,
+            ...results.passes.map((rule) => `✔ [PASS] ${rule.help}`),
+
+            report.newViolations.length > 0 ? `\n❌ NEW COMPLIANCE VIOLATIONS (${report.newViolations.length}):` : '\n✅ NO NEW VIOLATIONS FOUND',
+            ...report.newViolations.map((finding) => `✖ ${describe(finding)}`),
+
+            ...(report.knownViolations.length > 0 ? [`\n⚠️ KNOWN COMPLIANCE DEBT (${report.knownViolations.length}):`] : []),
+            ...report.knownViolations.map((finding) => `✖ ${finding.ticket} ${describe(finding)}`),
+
+            ...(report.belowThreshold.length > 0 ? [`\nℹ️ ${report.belowThreshold.length} violation(s) below the '${options.impact}' threshold not counted`] : []),
+            ...(report.staleBaseline.length > 0 ? [`\nℹ️ BASELINE ENTRIES NOW PASSING (${report.staleBaseline.length}):`] : []),
+            ...report.staleBaseline.map((entry) => `- ${entry.ticket}: ${entry.rule} on ${entry.target}`),
+            `\n------------------------------------------------`,
+            `END OF AUDIT REPORT`,
+        ].join('\n');
+    }
+
+    private static toContext(options: Required<AuditOptions>): ContextObject | undefined {
+        if (options.include.length === 0 && options.exclude.length === 0) {
+            return undefined;
+        }
+        return {
+            ...(options.include.length > 0 ? { include: options.include } : {}),
+            ...(options.exclude.length > 0 ? { exclude: options.exclude } : {}),
+        } as ContextObject;
+    }
+
+    private static toFinding(violation: Result, node: NodeResult): AuditFinding {
+        return {
+            rule: violation.id,
+            impact: (node.impact ?? violation.impact ?? null) as ImpactLevel | null,
+            help: violation.help,
+            helpUrl: violation.helpUrl,
+            target: this.formatTarget(node),
+            html: node.html,
+        };
+    }
+
+    /**
+     * The node's selector as one string, as used in the baseline. Frames and
+     * shadow roots add selector parts; they are joined with spaces.
+     */
+    private static formatTarget(node: NodeResult): string {
+        return node.target.map((part) => (Array.isArray(part) ? part.join(' ') : String(part))).join(' ');
+    }
+
+    /**
+     * Index in IMPACT_LEVELS; violations without an impact count as most severe.
+     */
+    private static severity(finding: AuditFinding): number {
+        return finding.impact ? IMPACT_LEVELS.indexOf(finding.impact) : IMPACT_LEVELS.length;
+    }
+
+    /**
+     * Check the parsed file has the expected shape, with errors naming the offending entry.
+     */
+    private static validateBaseline(filePath: string, baseline: A11yBaseline): void {
+        const fail = (message: string): never => {
+            throw new Error(`Invalid accessibility baseline '${path.basename(filePath)}': ${message}`);
+        };
+
+        if (!baseline || typeof baseline !== 'object' || !Array.isArray(baseline.violations)) {
+            fail('expected an object with a "violations" list');
+        }
+
+        baseline.violations.forEach((entry, index) => {
+            for (const key of ['rule', 'target', 'ticket'] as const) {
+                if (typeof entry[key] !== 'string' || entry[key] === '') fail(`violations[${index}].${key} must be a non-empty string`);
+            }
+            if (entry.page !== undefined && (typeof entry.page !== 'string' || !entry.page.startsWith('/'))) {
+                fail(`violations[${index}].page must be a path starting with "/"`);
+            }
+        });
+    }
+}
@@ -0,0 +1,48 @@
+import type { ApiRouteName } from './api.utils';
+import type { JsonSchema } from './contract.utils';
+
+/**
+ * Acknowledgement returned by the write endpoints (see ApiAck in api.types.ts).
+ * Only the field types are checked; the app is not known to always send them.
+ */
+const ACK: JsonSchema = {
+    type: 'object',
+    properties: {
+        success: { type: 'boolean' },
+        message: { type: 'string' },
+    },
+};
+
+/**
+ * Response contracts for each app endpoint, keyed by API_ROUTES name.
+ *
+ * ApiUtils checks every 2xx response against its route's contract. Keep these
+ * in step with api.types.ts when the app's responses change.
+ */
+export const API_CONTRACTS: Record<ApiRouteName, JsonSchema> = {
+    resetCart: ACK,
+    addToCart: ACK,
+    updateCart: ACK,
+    cart: {
+        type: 'object',
+        required: ['items', 'totalPrice'],
+        properties: {
+            items: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    required: ['itemId', 'name', 'price', 'quantity'],
+                    properties: {
+                        itemId: { type: 'integer', minimum: 1 },
+                        name: { type: 'string' },
+                        price: { type: 'number', minimum: 0 },
+                        quantity: { type: 'integer', minimum: 1 },
+                    },
+                },
+            },
+            totalPrice: { type: 'number', minimum: 0 },
+        },
+    },
+    // The confirmation page, not JSON
+    checkout: { type: 'string' },
+};
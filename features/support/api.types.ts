@@ -0,0 +1,69 @@
+/**
+ * Request and response types for the app-under-test's cart and checkout endpoints.
+ */
+
+/**
+ * POST /add-to-cart body. The app adds one unit per request.
+ */
+export interface AddToCartRequest {
+    itemId: number;
+}
+
+/**
+ * POST /update-cart body.
+ */
+export interface UpdateCartRequest {
+    itemId: number;
+    quantity: number;
+}
+
+/**
+ * One line of the cart as returned by GET /cart (JSON).
+ */
+export interface CartLine {
+    itemId: number;
+    name: string;
+    price: number;
+    quantity: number;
+}
+
+/**
+ * GET /cart response (JSON).
+ */
+export interface CartView {
+    items: CartLine[];
+    totalPrice: number;
+}
+
+/**
+ * Generic acknowledgement body returned by the write endpoints.
+ */
+export interface ApiAck {
+    success?: boolean;
+    message?: string;
+    [key: string]: unknown;
+}
+
+/**
+ * Timeout and retry policy for ApiUtils (see ApiUtils.initialize).
+ */
+export interface ApiClientOptions {
+    /** Per-request timeout, in milliseconds. */
+    timeout: number;
+    /** Maximum retries after the first attempt (0 disables retries). */
+    retries: number;
+    /** Delay before the first retry, in milliseconds; doubles on each further retry. */
+    retryDelay: number;
+    /** How long waitForAppReady() polls the app, in milliseconds. */
+    readyTimeout: number;
+    /**
+     * Throw an ApiError when a response breaks its route's contract. Off by
+     * default: violations are logged as warnings and kept for getContractCheck().
+     */
+    strictContracts: boolean;
+}
+
+/**
+ * Per-call overrides accepted by each ApiUtils endpoint method.
+ */
+export type ApiCallOptions = Partial<Pick<ApiClientOptions, 'timeout' | 'retries' | 'strictContracts'>>;
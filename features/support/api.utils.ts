@@ -1,4 +1,82 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse, Method, isAxiosError } from 'axios';
+
+import { HttpRecorder } from './http.recorder';
+import { API_CONTRACTS } from './api.contracts';
+import { ContractUtils } from './contract.utils';
+import type {
+    AddToCartRequest,
+    ApiAck,
+    ApiCallOptions,
+    ApiClientOptions,
+    CartView,
+    UpdateCartRequest,
+} from './api.types';
+
+/**
+ * Route paths for the app's cart and checkout endpoints, kept in one place.
+ */
+export const API_ROUTES = {
+    resetCart: '/reset-cart',
+    addToCart: '/add-to-cart',
+    updateCart: '/update-cart',
+    cart: '/cart',
+    checkout: '/checkout',
+} as const;
+
+export type ApiRouteName = keyof typeof API_ROUTES;
+
+const DEFAULT_OPTIONS: ApiClientOptions = {
+    timeout: 10000,
+    retries: 3,
+    retryDelay: 500,
+    readyTimeout: 60000,
+    strictContracts: false,
+};
+
+// Gateway/unavailable statuses an idempotent call is retried on
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+// Network errors where the request never reached the app, so even a non-idempotent call is safe to resend
+const NOT_SENT_ERRORS = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * The last response seen for a route and its contract check.
+ */
+export interface ContractCheck {
+    route: ApiRouteName;
+    status: number;
+    body: unknown;
+    /** Contract violations; empty when the body matched. */
+    violations: string[];
+}
+
+/**
+ * Options for ApiUtils.request().
+ */
+interface RequestOptions extends ApiCallOptions {
+    data?: unknown;
+    headers?: Record<string, string>;
+    /** Safe to resend after a timeout, dropped connection or 502/503/504. */
+    idempotent: boolean;
+}
+
+/**
+ * Error thrown for any non-2xx response, or (with strictContracts) a 2xx
+ * response that breaks its route's contract, carrying the status and body.
+ * Status is 0 when no response was received (e.g. connection refused or timeout).
+ */
+export class ApiError extends Error {
+    constructor(
+        message: string,
+        public readonly status: number,
+        public readonly body: unknown,
+        public readonly method: string,
+        public readonly url: string
+    ) {
+        super(`${message}. Status: ${status}. Body: ${JSON.stringify(body)}`);
+        this.name = 'ApiError';
+    }
+}
 
 /**
  * API utility class for interacting with cart-related endpoints.
@@ -8,74 +86,243 @@ import axios, { AxiosInstance, AxiosResponse } from 'axios';
  */
 export class ApiUtils {
     private static client: AxiosInstance;
+    private static options: ApiClientOptions = DEFAULT_OPTIONS;
+    private static contractChecks = new Map<ApiRouteName, ContractCheck>();
 
     /**
      * Initialize the axios client with a base URL.
+     * Every call made through the client is recorded by HttpRecorder.
      * 
      * @param baseUrl The base URL of the application (e.g., http://localhost:3000)
+     * @param options Timeout and retry policy; missing values use the defaults.
      */
-    static initialize(baseUrl: string): void {
+    static initialize(baseUrl: string, options: Partial<ApiClientOptions> = {}): void {
+        this.options = { ...DEFAULT_OPTIONS, ...options };
+        this.contractChecks.clear();
         this.client = axios.create({
             baseURL: baseUrl,
-            validateStatus: () => true, // Return response for all status codes (including errors); we handle errors manually in each method
+            timeout: this.options.timeout,
+            validateStatus: () => true, // Return response for all status codes (including errors); errors are raised centrally in request()
         });
+        HttpRecorder.install(this.client);
     }
 
     /**
-     * Reset the cart via POST /reset-cart.
+     * Poll the app's home page until it answers, so scenarios don't fail
+     * while the app is still booting. Any non-5xx response counts as ready.
      * 
-     * Equivalent to Python's reset_cart(api_request_context).
+     * Probes bypass the recorded client, so they don't clutter the API Calls attachment.
      * 
-     * @returns The response from the server.
-     * @throws Error if the response status is not OK (2xx).
+     * @param timeout How long to keep polling, in milliseconds (defaults to readyTimeout).
+     * @throws Error if the app does not answer within the timeout.
      */
-    static async resetCart(): Promise<AxiosResponse> {
-        if (!this.client) {
-            throw new Error('ApiUtils not initialized. Call ApiUtils.initialize(baseUrl) first.');
+    static async waitForAppReady(timeout: number = this.options.readyTimeout): Promise<void> {
+        const baseUrl = this.getClient().defaults.baseURL;
+        const started = Date.now();
+        let attempts = 0;
+        let lastError = '';
+
+        while (Date.now() - started < timeout) {
+            attempts++;
+            try {
+                const response = await axios.get(baseUrl ?? '/', {
+                    timeout: Math.min(this.options.timeout, 5000),
+                    validateStatus: () => true,
+                });
+                if (response.status < 500) {
+                    if (attempts > 1) {
+                        console.log(`✅ App ready at ${baseUrl} after ${attempts} probes (${Date.now() - started}ms)`);
+                    }
+                    return;
+                }
+                lastError = `status ${response.status}`;
+            } catch (error) {
+                lastError = isAxiosError(error) ? error.code ?? error.message : String(error);
+            }
+            await this.sleep(500);
         }
 
-        const response = await this.client.post('/reset-cart');
+        throw new Error(`App at ${baseUrl} not ready after ${timeout}ms (${attempts} probes, last: ${lastError})`);
+    }
 
-        // Assert success (equivalent to Python's `assert response.ok`)
-        if (response.status < 200 || response.status >= 300) {
-            throw new Error(
-                `Reset cart failed. Status: ${response.status}. Body: ${JSON.stringify(response.data)}`
-            );
-        }
+    /**
+     * Reset the cart via POST /reset-cart.
+     * 
+     * Equivalent to Python's reset_cart(api_request_context).
+     * 
+     * @param options Per-call timeout/retry overrides.
+     * @returns The response from the server.
+     * @throws ApiError if the response status is not OK (2xx) (or, with strictContracts, the body breaks its contract).
+     */
+    static async resetCart(options: ApiCallOptions = {}): Promise<AxiosResponse<ApiAck>> {
+        const response = await this.request<ApiAck>('POST', 'resetCart', 'Reset cart failed', {
+            ...options,
+            idempotent: true,
+        });
 
         console.log(`✅ Cart reset successfully (status: ${response.status})`);
         return response;
     }
 
     /**
-     * Add a single item to the cart via POST /add-to-cart.
+     * Add an item to the cart via POST /add-to-cart.
      * 
      * Equivalent to Python's add_to_cart(api_request_context, item_id).
+     * The app adds one unit per request, so a quantity > 1 sends one request per unit.
      * 
      * @param itemId The ID of the item to add.
-     * @returns The response from the server.
-     * @throws Error if the response status is not OK (2xx).
+     * @param quantity How many units to add (default 1).
+     * @param options Per-call timeout/retry overrides.
+     * @returns The response to the last request.
+     * @throws ApiError if any response status is not OK (2xx) (or, with strictContracts, a body breaks its contract).
      */
-    static async addToCart(itemId: number): Promise<AxiosResponse> {
-        if (!this.client) {
-            throw new Error('ApiUtils not initialized. Call ApiUtils.initialize(baseUrl) first.');
+    static async addToCart(itemId: number, quantity: number = 1, options: ApiCallOptions = {}): Promise<AxiosResponse<ApiAck>> {
+        if (!Number.isInteger(quantity) || quantity < 1) {
+            throw new Error(`Quantity must be a positive integer, got ${quantity}`);
+        }
+
+        const body: AddToCartRequest = { itemId };
+        let response!: AxiosResponse<ApiAck>;
+        for (let i = 0; i < quantity; i++) {
+            response = await this.request<ApiAck>('POST', 'addToCart', `Add to cart failed for item ${itemId}`, {
+                ...options,
+                data: body,
+                idempotent: false,
+            });
         }
 
-        const response = await this.client.post('/add-to-cart', {
-            itemId: itemId,
+        console.log(`✅ Item ${itemId} x${quantity} added to cart (status: ${response.status})`);
+        return response;
+    }
+
+    /**
+     * Set the quantity of an item already in the cart via POST /update-cart.
+     * 
+     * @param itemId The ID of the item.
+     * @param quantity The new quantity (0 removes the item).
+     * @param options Per-call timeout/retry overrides.
+     * @returns The response from the server.
+     * @throws ApiError if the response status is not OK (2xx).
+     */
+    static async updateQuantity(itemId: number, quantity: number, options: ApiCallOptions = {}): Promise<AxiosResponse<ApiAck>> {
+        const body: UpdateCartRequest = { itemId, quantity };
+        const response = await this.request<ApiAck>('POST', 'updateCart', `Update quantity failed for item ${itemId}`, {
+            ...options,
+            data: body,
+            idempotent: true,
+        });
+
+        console.log(`✅ Item ${itemId} quantity set to ${quantity} (status: ${response.status})`);
+        return response;
+    }
+
+    /**
+     * Remove an item from the cart by setting its quantity to 0, as the cart
+     * page does (the app has no separate remove route).
+     * 
+     * @param itemId The ID of the item to remove.
+     * @param options Per-call timeout/retry overrides.
+     * @returns The response from the server.
+     * @throws ApiError if the response status is not OK (2xx).
+     */
+    static async removeItem(itemId: number, options: ApiCallOptions = {}): Promise<AxiosResponse<ApiAck>> {
+        const body: UpdateCartRequest = { itemId, quantity: 0 };
+        const response = await this.request<ApiAck>('POST', 'updateCart', `Remove item failed for item ${itemId}`, {
+            ...options,
+            data: body,
+            idempotent: true,
         });
 
-        // Assert success
-        if (response.status < 200 || response.status >= 300) {
-            throw new Error(
-                `Add to cart failed for item ${itemId}. Status: ${response.status}. Body: ${JSON.stringify(response.data)}`
+        console.log(`✅ Item ${itemId} removed from cart (status: ${response.status})`);
+        return response;
+    }
+
+    /**
+     * Read the cart as JSON via GET /cart, asking for JSON rather than the cart page.
+     * 
+     * @param options Per-call timeout/retry overrides.
+     * @returns The cart lines and total price.
+     * @throws ApiError if the response status is not OK (2xx) or the app answered with HTML.
+     */
+    static async getCart(options: ApiCallOptions = {}): Promise<CartView> {
+        const response = await this.request<CartView>('GET', 'cart', 'View cart failed', {
+            ...options,
+            headers: { Accept: 'application/json' },
+            idempotent: true,
+        });
+        if (typeof response.data !== 'object' || response.data === null) {
+            throw new ApiError(
+                `GET ${API_ROUTES.cart} did not return JSON (content-type: ${response.headers['content-type']})`,
+                response.status,
+                String(response.data).slice(0, 200),
+                'GET',
+                API_ROUTES.cart
             );
         }
 
-        console.log(`✅ Item ${itemId} added to cart (status: ${response.status})`);
+        console.log(`✅ Cart retrieved: ${response.data.items?.length ?? 0} line(s)`);
+        return response.data;
+    }
+
+    /**
+     * Complete the purchase via GET /checkout, the page the cart's checkout
+     * button opens: the app empties the cart when it serves it.
+     * Not idempotent: only retried if the app was unreachable.
+     * 
+     * @param options Per-call timeout/retry overrides.
+     * @returns The response from the server (the confirmation page's HTML).
+     * @throws ApiError if the response status is not OK (2xx).
+     */
+    static async checkout(options: ApiCallOptions = {}): Promise<AxiosResponse<string>> {
+        const response = await this.request<string>('GET', 'checkout', 'Checkout failed', {
+            ...options,
+            idempotent: false,
+        });
+
+        console.log(`✅ Checkout completed (status: ${response.status})`);
         return response;
     }
 
+    /**
+     * Send a GET to any route in API_ROUTES and return the raw response, for
+     * checks the typed methods don't cover (e.g. the HTML a route serves).
+     * Retried and contract-checked like the other calls.
+     * 
+     * @param route Route name or path (e.g. "cart" or "/cart").
+     * @param accept Accept header to send (e.g. "text/html").
+     * @param options Per-call timeout/retry overrides.
+     * @returns The response from the server.
+     * @throws ApiError if the response status is not OK (2xx).
+     */
+    static async get<T = unknown>(route: string, accept: string, options: ApiCallOptions = {}): Promise<AxiosResponse<T>> {
+        const name = this.resolveRoute(route);
+        const response = await this.request<T>('GET', name, `GET ${API_ROUTES[name]} failed`, {
+            ...options,
+            headers: { Accept: accept },
+            idempotent: true,
+        });
+
+        console.log(`✅ GET ${API_ROUTES[name]} (${accept}) returned status ${response.status}`);
+        return response;
+    }
+
+    /**
+     * The contract check for the last successful response from a route.
+     * 
+     * @param route Route name or path, e.g. "addToCart", "add-to-cart" or "/add-to-cart".
+     * @returns The response status, body and any contract violations.
+     * @throws Error if the route is unknown or has not been called in this scenario.
+     */
+    static getContractCheck(route: string): ContractCheck {
+        const name = this.resolveRoute(route);
+        const check = this.contractChecks.get(name);
+
+        if (!check) {
+            throw new Error(`No successful ${API_ROUTES[name]} response recorded in this scenario`);
+        }
+        return check;
+    }
+
     /**
      * Helper method: determine if HTTP status code indicates success.
      * Accepts 2xx (success) and 3xx (redirect) as valid for this app.
@@ -86,4 +333,111 @@ export class ApiUtils {
     static isSuccessStatus(statusCode: number): boolean {
         return statusCode >= 200 && statusCode < 400;
     }
-}
\ No newline at end of file
+
+    /**
+     * Send a request, retrying transient failures, and validate the response.
+     * 
+     * Shared by every endpoint method: checks the client is initialized,
+     * retries with exponential backoff, and raises an ApiError for any
+     * non-2xx status. Idempotent calls are retried on network errors,
+     * timeouts and 502/503/504; other calls only when the app was
+     * unreachable (the request never arrived). Each retry is logged.
+     * 
+     * Every successful body is checked against the route's contract
+     * (api.contracts.ts) and kept for getContractCheck(). A violation is
+     * logged as a warning, or throws an ApiError with `strictContracts`.
+     * 
+     * @param method HTTP method.
+     * @param route Route name (see API_ROUTES).
+     * @param failureMessage Error message prefix (e.g., "Reset cart failed").
+     * @param options Body, headers, idempotency and per-call timeout/retries.
+     * @returns The validated response.
+     */
+    private static async request<T>(
+        method: Method,
+        route: ApiRouteName,
+        failureMessage: string,
+        options: RequestOptions
+    ): Promise<AxiosResponse<T>> {
+        const client = this.getClient();
+        const url = API_ROUTES[route];
+        const retries = options.retries ?? this.options.retries;
+
+        for (let attempt = 0; ; attempt++) {
+            let response: AxiosResponse<T> | undefined;
+            let reason: string;
+            let retryable: boolean;
+
+            try {
+                response = await client.request<T>({
+                    method,
+                    url,
+                    data: options.data,
+                    headers: options.headers,
+                    timeout: options.timeout ?? this.options.timeout,
+                });
+
+                // Assert success (equivalent to Python's `assert response.ok`)
+                if (response.status >= 200 && response.status < 300) {
+                    const violations = this.checkContract(route, response);
+                    if (violations.length > 0 && (options.strictContracts ?? this.options.strictContracts)) {
+                        throw new ApiError(
+                            `${failureMessage}: response breaks its contract (${violations.join('; ')})`,
+                            response.status, response.data, method, url
+                        );
+                    }
+                    return response;
+                }
+                reason = `status ${response.status}`;
+                retryable = options.idempotent && RETRYABLE_STATUSES.includes(response.status);
+            } catch (error) {
+                if (!isAxiosError(error)) {
+                    throw error;
+                }
+                reason = error.code ?? error.message;
+                retryable = options.idempotent || NOT_SENT_ERRORS.includes(error.code ?? '');
+            }
+
+            if (!retryable || attempt >= retries) {
+                const suffix = attempt > 0 ? ` after ${attempt + 1} attempts` : '';
+                throw new ApiError(`${failureMessage}${suffix}`, response?.status ?? 0, response?.data ?? reason, method, url);
+            }
+
+            const delay = this.options.retryDelay * 2 ** attempt;
+            console.log(`⚠️ ${method} ${url} failed (${reason}); retry ${attempt + 1}/${retries} in ${delay}ms`);
+            await this.sleep(delay);
+        }
+    }
+
+    private static checkContract(route: ApiRouteName, response: AxiosResponse): string[] {
+        const violations = ContractUtils.validate(API_CONTRACTS[route], response.data);
+
+        if (violations.length > 0) {
+            console.log(`⚠️ ${API_ROUTES[route]} response breaks its contract:\n  ${violations.join('\n  ')}`);
+        }
+        this.contractChecks.set(route, { route, status: response.status, body: response.data, violations });
+        return violations;
+    }
+
+    private static resolveRoute(route: string): ApiRouteName {
+        const path = `/${route.replace(/^\//, '')}`;
+        const name = (Object.keys(API_ROUTES) as ApiRouteName[])
+            .find((key) => key === route || API_ROUTES[key] === path);
+
+        if (!name) {
+            throw new Error(`Unknown API route '${route}'. Expected one of: ${Object.values(API_ROUTES).join(', ')}`);
+        }
+        return name;
+    }
+
+    private static getClient(): AxiosInstance {
+        if (!this.client) {
+            throw new Error('ApiUtils not initialized. Call ApiUtils.initialize(baseUrl) first.');
+        }
+        return this.client;
+    }
+
+    private static sleep(ms: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+}
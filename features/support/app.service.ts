@@ -0,0 +1,418 @@
+import { spawn, ChildProcess } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+
+import { MockApp } from './mock.app';
+
+/**
+ * Options for the app-under-test lifecycle service (set from the resolved profile in wdio.conf.ts).
+ */
+export interface AppServiceOptions {
+    /** Whether the service should start the app at all. */
+    startApp: boolean;
+    /** URL polled until the app responds. */
+    baseUrl: string;
+    /** Directory the start command runs in. */
+    appDir: string;
+    /** Shell command that starts the app (e.g. "npm start"). */
+    command: string;
+    /** How long to wait for baseUrl to become healthy, in milliseconds. */
+    readyTimeout: number;
+    /** File that receives the app's stdout/stderr. */
+    logPath?: string;
+    /** Path to the shared shop.db (snapshot source in isolated mode). */
+    dbPath: string;
+    /** Give each worker its own app instance, port and shop.db copy. */
+    isolateWorkers: boolean;
+    /** First port used for per-worker app instances. */
+    workerBasePort: number;
+    /** Serve the in-memory MockApp from the launcher instead of running the real app. */
+    mock?: boolean;
+}
+
+const DEFAULT_LOG_PATH = path.join('logs', 'app-under-test.log');
+const POLL_INTERVAL_MS = 500;
+const STOP_TIMEOUT_MS = 10000;
+
+/**
+ * A single app-under-test process started from a directory.
+ *
+ * Output is appended to a log file, and the process is started in its own
+ * process group so `npm start` and the node server it spawns are stopped together.
+ */
+export class AppProcess {
+    private child?: ChildProcess;
+    private exited = false;
+
+    constructor(
+        private readonly appDir: string,
+        private readonly command: string,
+        private readonly logPath: string,
+        private readonly env: NodeJS.ProcessEnv = {}
+    ) {}
+
+    /**
+     * Spawn the start command, appending its output to the log file.
+     *
+     * @throws Error if appDir does not exist.
+     */
+    start(): void {
+        if (!fs.existsSync(this.appDir)) {
+            throw new Error(`App directory not found: ${this.appDir}`);
+        }
+
+        fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+        const log = fs.createWriteStream(this.logPath, { flags: 'a' });
+        log.write(`\n===== ${new Date().toISOString()} ${this.command} (cwd: ${this.appDir}) =====\n`);
+
+        this.child = spawn(this.command, {
+            cwd: this.appDir,
+            shell: true,
+            detached: process.platform !== 'win32',
+            env: { ...process.env, ...this.env },
+            stdio: ['ignore', 'pipe', 'pipe'],
+        });
+        this.child.stdout?.pipe(log);
+        this.child.stderr?.pipe(log);
+        this.child.once('exit', () => {
+            this.exited = true;
+        });
+
+        // Last-resort cleanup if the launcher exits without running onComplete
+        process.once('exit', () => this.kill('SIGKILL'));
+
+        console.log(`🚀 Started app-under-test (pid ${this.child.pid}): ${this.command}`);
+    }
+
+    /**
+     * Poll a URL until it answers with a non-5xx status.
+     *
+     * @param url The URL to poll.
+     * @param timeout Maximum wait in milliseconds.
+     * @throws Error if the process exits or the timeout elapses first.
+     */
+    async waitUntilReady(url: string, timeout: number): Promise<void> {
+        const deadline = Date.now() + timeout;
+
+        while (Date.now() < deadline) {
+            if (this.child && this.exited) {
+                throw new Error(`App-under-test exited before becoming ready. See ${this.logPath}`);
+            }
+            if (await AppProcess.isHealthy(url)) {
+                console.log(`✅ App-under-test is up at ${url}`);
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+
+        throw new Error(`App-under-test did not respond at ${url} within ${timeout}ms. See ${this.logPath}`);
+    }
+
+    /**
+     * Stop the process group: SIGTERM first, SIGKILL if it has not exited in time.
+     */
+    async stop(): Promise<void> {
+        if (!this.child || this.exited) {
+            return;
+        }
+
+        const exited = new Promise<void>((resolve) => this.child!.once('exit', () => resolve()));
+        this.kill('SIGTERM');
+
+        const timedOut = await Promise.race([
+            exited.then(() => false),
+            new Promise<boolean>((resolve) => setTimeout(() => resolve(true), STOP_TIMEOUT_MS)),
+        ]);
+        if (timedOut) {
+            console.warn(`⚠️ App-under-test did not stop within ${STOP_TIMEOUT_MS}ms; sending SIGKILL`);
+            this.kill('SIGKILL');
+        }
+
+        console.log('✅ App-under-test stopped');
+    }
+
+    /**
+     * Check whether a URL currently answers with a non-5xx status.
+     *
+     * @param url The URL to check.
+     * @returns true if the server responded; false on connection errors or 5xx.
+     */
+    static async isHealthy(url: string): Promise<boolean> {
+        try {
+            const response = await axios.get(url, { timeout: 2000, validateStatus: () => true });
+            return response.status < 500;
+        } catch {
+            return false;
+        }
+    }
+
+    private kill(signal: NodeJS.Signals): void {
+        if (!this.child?.pid || this.exited) {
+            return;
+        }
+        try {
+            if (process.platform === 'win32') {
+                spawn('taskkill', ['/pid', String(this.child.pid), '/T', '/F']);
+            } else {
+                // Negative pid targets the whole process group
+                process.kill(-this.child.pid, signal);
+            }
+        } catch {
+            // Already gone
+        }
+    }
+}
+
+/**
+ * Connection details for one worker's isolated app instance.
+ */
+export interface WorkerInstance {
+    baseUrl: string;
+    dbPath: string;
+    logPath: string;
+}
+
+/**
+ * WebdriverIO service that owns the app-under-test lifecycle.
+ *
+ * Shared mode: onPrepare starts the app (unless one is already healthy at
+ * baseUrl) and waits for it; onComplete stops it. With `mock`, the in-memory
+ * MockApp is served from the launcher process instead. The log path is exported
+ * as APP_LOG_PATH so workers can attach the app output to the Allure report.
+ *
+ * Isolated mode (isolateWorkers): onPrepare snapshots shop.db, and
+ * onWorkerStart gives each worker a copy of the app directory with its own
+ * shop.db and port. Because the launcher's `args` object is shared between
+ * workers, the instance details are handed over through a registry file and
+ * applied to the worker config in beforeSession.
+ */
+export default class AppUnderTestService {
+    private readonly settings: AppServiceOptions;
+    private app?: AppProcess;
+    private mockApp?: MockApp;
+    private readonly workerApps = new Map<string, { app: AppProcess; port: number; workspace: string }>();
+    private workspaceRoot?: string;
+
+    constructor(options: WebdriverIO.ServiceOption) {
+        this.settings = options as AppServiceOptions;
+    }
+
+    async onPrepare(): Promise<void> {
+        if (this.settings.isolateWorkers) {
+            this.prepareWorkspaceRoot();
+            return;
+        }
+        if (!this.settings.startApp) {
+            return;
+        }
+
+        const { baseUrl, appDir, command, readyTimeout } = this.settings;
+        const logPath = path.resolve(this.settings.logPath ?? DEFAULT_LOG_PATH);
+        process.env.APP_LOG_PATH = logPath;
+
+        if (await AppProcess.isHealthy(baseUrl)) {
+            console.log(`ℹ️ App-under-test already running at ${baseUrl}; not starting another`);
+            return;
+        }
+
+        if (this.settings.mock) {
+            this.mockApp = new MockApp(logPath);
+            await this.mockApp.start(Number(new URL(baseUrl).port || 80));
+            return;
+        }
+
+        const port = new URL(baseUrl).port;
+        this.app = new AppProcess(appDir, command, logPath, port ? { PORT: port } : {});
+        this.app.start();
+
+        try {
+            await this.app.waitUntilReady(baseUrl, readyTimeout);
+        } catch (error) {
+            await this.app.stop();
+            throw error;
+        }
+    }
+
+    /**
+     * Isolated mode: start a dedicated app instance for the worker.
+     *
+     * @param cid The worker id (e.g. "0-0").
+     */
+    async onWorkerStart(cid: string): Promise<void> {
+        if (!this.settings.isolateWorkers || !this.workspaceRoot) {
+            return;
+        }
+
+        const { appDir, command, readyTimeout } = this.settings;
+        const port = this.allocatePort();
+        const workspace = path.join(this.workspaceRoot, cid);
+        const workerAppDir = path.join(workspace, 'app');
+        const dbPath = path.join(workerAppDir, this.relativeDbPath());
+        const logPath = path.resolve(path.dirname(this.settings.logPath ?? DEFAULT_LOG_PATH), `app-under-test-${cid}.log`);
+
+        // Copy the app source (node_modules is linked, not copied) plus the pristine shop.db
+        fs.cpSync(appDir, workerAppDir, {
+            recursive: true,
+            filter: (src) => !['node_modules', '.git'].includes(path.basename(src)),
+        });
+        if (fs.existsSync(path.join(appDir, 'node_modules'))) {
+            fs.symlinkSync(path.join(appDir, 'node_modules'), path.join(workerAppDir, 'node_modules'), 'junction');
+        }
+        fs.copyFileSync(this.snapshotPath(), dbPath);
+
+        const url = new URL(this.settings.baseUrl);
+        url.port = String(port);
+        const baseUrl = url.origin;
+
+        const app = new AppProcess(workerAppDir, command, logPath, { PORT: String(port), DB_PATH: dbPath });
+        this.workerApps.set(cid, { app, port, workspace });
+        try {
+            app.start();
+            await app.waitUntilReady(baseUrl, readyTimeout);
+        } catch (error) {
+            await this.onWorkerEnd(cid);
+            throw error;
+        }
+
+        const instance: WorkerInstance = { baseUrl, dbPath, logPath };
+        fs.writeFileSync(path.join(this.workspaceRoot, `${cid}.json`), JSON.stringify(instance));
+        console.log(`🧪 Worker ${cid} isolated: ${baseUrl} (db: ${dbPath})`);
+    }
+
+    /**
+     * Isolated mode: stop the worker's app instance and remove its workspace.
+     *
+     * @param cid The worker id (e.g. "0-0").
+     */
+    async onWorkerEnd(cid: string): Promise<void> {
+        const worker = this.workerApps.get(cid);
+        if (!worker) {
+            return;
+        }
+
+        await worker.app.stop();
+        fs.rmSync(worker.workspace, { recursive: true, force: true });
+        this.workerApps.delete(cid);
+    }
+
+    /**
+     * Worker side (isolated mode): point the session at this worker's app instance.
+     *
+     * @param config The worker config, applied to `browser.options`.
+     * @param _capabilities Unused.
+     * @param _specs Unused.
+     * @param cid The worker id (e.g. "0-0").
+     */
+    beforeSession(config: WebdriverIO.Config & { dbPath?: string }, _capabilities: unknown, _specs: string[], cid: string): void {
+        const registry = process.env.APP_WORKER_REGISTRY;
+        if (!this.settings.isolateWorkers || !registry) {
+            return;
+        }
+
+        const entryPath = path.join(registry, `${cid}.json`);
+        if (!fs.existsSync(entryPath)) {
+            throw new Error(`No isolated app instance registered for worker ${cid} (${entryPath})`);
+        }
+
+        const instance = JSON.parse(fs.readFileSync(entryPath, 'utf-8')) as WorkerInstance;
+        config.baseUrl = instance.baseUrl;
+        config.dbPath = instance.dbPath;
+        process.env.APP_LOG_PATH = instance.logPath;
+    }
+
+    async onComplete(): Promise<void> {
+        await this.app?.stop();
+        await this.mockApp?.stop();
+
+        for (const cid of [...this.workerApps.keys()]) {
+            await this.onWorkerEnd(cid);
+        }
+        if (this.workspaceRoot) {
+            fs.rmSync(this.workspaceRoot, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Create the temp workspace and snapshot the pristine shop.db into it.
+     */
+    private prepareWorkspaceRoot(): void {
+        this.relativeDbPath(); // validate before doing any work
+
+        this.workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'e2e-workers-'));
+        fs.copyFileSync(this.settings.dbPath, this.snapshotPath());
+
+        // Inherited by every worker forked after onPrepare
+        process.env.APP_WORKER_REGISTRY = this.workspaceRoot;
+        console.log(`📸 shop.db snapshot taken for isolated workers: ${this.snapshotPath()}`);
+    }
+
+    private snapshotPath(): string {
+        return path.join(this.workspaceRoot!, 'shop.snapshot.db');
+    }
+
+    /**
+     * shop.db location inside appDir, so the same file can be found in each copy.
+     *
+     * @throws Error if shop.db is not inside appDir.
+     */
+    private relativeDbPath(): string {
+        const relative = path.relative(this.settings.appDir, this.settings.dbPath);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new Error(
+                `isolateWorkers requires shop.db (${this.settings.dbPath}) to live inside appDir (${this.settings.appDir})`
+            );
+        }
+        return relative;
+    }
+
+    /**
+     * Lowest port from workerBasePort upwards that no running worker holds.
+     */
+    private allocatePort(): number {
+        const used = new Set([...this.workerApps.values()].map((worker) => worker.port));
+        let port = this.settings.workerBasePort;
+        while (used.has(port)) {
+            port++;
+        }
+        return port;
+    }
+
+    /**
+     * Current size of the app log, used to mark where a scenario's output starts.
+     *
+     * @returns The byte offset, or 0 if there is no log.
+     */
+    static getLogOffset(): number {
+        const logPath = process.env.APP_LOG_PATH;
+        return logPath && fs.existsSync(logPath) ? fs.statSync(logPath).size : 0;
+    }
+
+    /**
+     * Read the app log written since the given offset.
+     *
+     * @param offset Byte offset returned by getLogOffset().
+     * @returns The new log output, or '' if there is none.
+     */
+    static readLogSince(offset: number): string {
+        const logPath = process.env.APP_LOG_PATH;
+        if (!logPath || !fs.existsSync(logPath)) {
+            return '';
+        }
+
+        const size = fs.statSync(logPath).size;
+        if (size <= offset) {
+            return '';
+        }
+
+        const buffer = Buffer.alloc(size - offset);
+        const fd = fs.openSync(logPath, 'r');
+        try {
+            fs.readSync(fd, buffer, 0, buffer.length, offset);
+        } finally {
+            fs.closeSync(fd);
+        }
+        return buffer.toString('utf-8');
+    }
+}
@@ -0,0 +1,101 @@
+import * as fs from 'fs';
+import { createRequire } from 'module';
+import { browser } from '@wdio/globals';
+import type { AxeResults, ElementContext, RunOptions } from 'axe-core';
+
+const require = createRequire(import.meta.url);
+
+declare global {
+    interface Window {
+        /** axe-core, once injected by AxeUtils. */
+        axe?: typeof import('axe-core');
+        /** axe-core source chunks, only while AxeUtils.inject() is sending them. */
+        __axeSource?: string[];
+    }
+}
+
+// Characters sent per browser.execute() call; keeps each BiDi script argument small
+const CHUNK_SIZE = 100_000;
+
+/**
+ * Runs axe-core audits with the axe-core version installed in node_modules.
+ *
+ * The minified source is read from disk and injected into the page in
+ * chunks, so audits work offline and use the version in package.json.
+ * Injection is skipped when the page already has that version loaded.
+ */
+export class AxeUtils {
+    private static source?: string;
+    private static version?: string;
+
+    /**
+     * @returns The installed axe-core version (e.g. "4.13.0").
+     */
+    static getVersion(): string {
+        if (!this.version) {
+            this.version = (require('axe-core/package.json') as { version: string }).version;
+        }
+        return this.version;
+    }
+
+    /**
+     * Inject axe-core into the current page unless it is already there.
+     *
+     * Call again after every navigation; a new document starts without axe.
+     *
+     * @throws Error if axe is not available in the page after injection.
+     */
+    static async inject(): Promise<void> {
+        const version = this.getVersion();
+        const loaded = await browser.execute(() => window.axe?.version ?? null);
+        if (loaded === version) {
+            return;
+        }
+
+        const source = this.getSource();
+        await browser.execute(() => { window.__axeSource = []; });
+        for (let start = 0; start < source.length; start += CHUNK_SIZE) {
+            const chunk = source.slice(start, start + CHUNK_SIZE);
+            await browser.execute((part: string) => { window.__axeSource?.push(part); }, chunk);
+        }
+
+        // An inline <script> runs synchronously and does not need eval()
+        const injected = await browser.execute(() => {
+            const script = document.createElement('script');
+            script.textContent = window.__axeSource?.join('') ?? '';
+            delete window.__axeSource;
+            (document.head ?? document.documentElement).appendChild(script);
+            script.remove();
+            return window.axe?.version ?? null;
+        });
+
+        if (injected !== version) {
+            throw new Error(`Failed to inject axe-core ${version} (page reports ${injected ?? 'no axe'}); a Content-Security-Policy may block inline scripts`);
+        }
+        console.log(`🔍 Injected axe-core ${version}`);
+    }
+
+    /**
+     * Inject axe-core if needed and audit the current page.
+     *
+     * @param options axe run options (e.g. `runOnly` tags).
+     * @param context What to audit (default: the whole document).
+     * @returns The axe results.
+     */
+    static async run(options: RunOptions = {}, context?: ElementContext): Promise<AxeResults> {
+        await this.inject();
+        return browser.execute(
+            (runContext: ElementContext | null, runOptions: RunOptions) =>
+                window.axe!.run(runContext ?? document, runOptions),
+            context ?? null,
+            options
+        );
+    }
+
+    private static getSource(): string {
+        if (!this.source) {
+            this.source = fs.readFileSync(require.resolve('axe-core/axe.min.js'), 'utf8');
+        }
+        return this.source;
+    }
+}
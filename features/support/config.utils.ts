@@ -0,0 +1,432 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { browser } from '@wdio/globals';
+
+import type { ApiClientOptions } from './api.types';
+
+/**
+ * Named configuration profiles.
+ *
+ * - local:      App cloned next to (or inside) this repo, headed Chrome.
+ * - codespaces: App cloned into ./app-under-test, headless Chrome, app started by the runner.
+ * - ci:         GitHub Actions runner, headless Chrome, app started by the runner.
+ * - custom:     No built-in defaults for baseUrl/dbPath; they must come from
+ *               the profile file, env vars or CLI flags.
+ * - mock:       Built-in in-memory mock app (mock.app.ts) on port 4000; no
+ *               shop.db or app clone needed, and @db scenarios are skipped.
+ */
+export type ProfileName = 'local' | 'codespaces' | 'ci' | 'custom' | 'mock';
+
+export const PROFILE_NAMES: readonly ProfileName[] = ['local', 'codespaces', 'ci', 'custom', 'mock'];
+
+/**
+ * Fully resolved environment settings consumed by wdio.conf.ts.
+ */
+export interface EnvironmentConfig {
+    profile: ProfileName;
+    baseUrl: string;
+    dbPath: string;
+    headless: boolean;
+    waitforTimeout: number;
+    stepTimeout: number;
+    maxInstances: number;
+    /** Start the app-under-test from appDir in onPrepare (reuses an app already up at baseUrl). */
+    startApp: boolean;
+    /** Directory of the app-under-test; defaults to the folder containing shop.db. */
+    appDir: string;
+    /** Shell command that starts the app inside appDir. */
+    appStartCommand: string;
+    /** How long to poll baseUrl for a healthy response, in milliseconds. */
+    appReadyTimeout: number;
+    /** Give each worker its own app instance, port and shop.db copy. */
+    isolateWorkers: boolean;
+    /** First port used for per-worker app instances. */
+    workerBasePort: number;
+    /** Default timeout for each ApiUtils request, in milliseconds. */
+    apiTimeout: number;
+    /** How many times ApiUtils retries a failed request (0 disables retries). */
+    apiRetries: number;
+    /** Delay before the first retry, in milliseconds; doubles on each further retry. */
+    apiRetryDelay: number;
+    /** Fail ApiUtils calls whose response breaks its contract, instead of warning. */
+    apiStrictContracts: boolean;
+    /** Baseline file of known accessibility violations ('' for none). */
+    a11yBaseline: string;
+    /** Audit every scenario at page-object checkpoints, not just @a11y ones. */
+    a11yAudit: boolean;
+}
+
+/**
+ * Settings a profile (built-in or from the profile file) may provide.
+ */
+export type ProfileSettings = Partial<Omit<EnvironmentConfig, 'profile'>>;
+
+/**
+ * Shape of the optional profile file (wdio.profiles.json by default).
+ * Keys are profile names; values override the built-in profile defaults.
+ */
+export type ProfileFile = Partial<Record<ProfileName, ProfileSettings>>;
+
+type Settings = Omit<EnvironmentConfig, 'profile'>;
+type SettingKey = keyof Settings;
+
+const APP_UNDER_TEST_DB = path.join('app-under-test', 'shop.db');
+const SIBLING_APP_DB = path.join('..', 'test-automation-foundations-728391', 'shop.db');
+const DEFAULT_PROFILE_FILE = 'wdio.profiles.json';
+
+const SHARED_DEFAULTS: ProfileSettings = {
+    baseUrl: 'http://localhost:3000',
+    headless: false,
+    waitforTimeout: 10000,
+    stepTimeout: 60000,
+    maxInstances: 10,
+    startApp: false,
+    appDir: '',
+    appStartCommand: 'npm start',
+    appReadyTimeout: 60000,
+    isolateWorkers: false,
+    workerBasePort: 3100,
+    apiTimeout: 10000,
+    apiRetries: 3,
+    apiRetryDelay: 500,
+    apiStrictContracts: false,
+    a11yBaseline: path.join('features', 'a11y', 'baseline.yml'),
+    a11yAudit: false,
+};
+
+/**
+ * Env var, CLI flag and value type for each setting.
+ */
+const SETTING_SOURCES: Record<SettingKey, { env: string; flag: string; type: 'string' | 'boolean' | 'integer' | 'count' }> = {
+    baseUrl: { env: 'BASE_URL', flag: '--base-url', type: 'string' },
+    dbPath: { env: 'DB_PATH', flag: '--db-path', type: 'string' },
+    headless: { env: 'HEADLESS', flag: '--headless', type: 'boolean' },
+    waitforTimeout: { env: 'WAIT_TIMEOUT', flag: '--wait-timeout', type: 'integer' },
+    stepTimeout: { env: 'STEP_TIMEOUT', flag: '--step-timeout', type: 'integer' },
+    maxInstances: { env: 'MAX_INSTANCES', flag: '--max-instances', type: 'integer' },
+    startApp: { env: 'START_APP', flag: '--start-app', type: 'boolean' },
+    appDir: { env: 'APP_DIR', flag: '--app-dir', type: 'string' },
+    appStartCommand: { env: 'APP_START_COMMAND', flag: '--app-start-command', type: 'string' },
+    appReadyTimeout: { env: 'APP_READY_TIMEOUT', flag: '--app-ready-timeout', type: 'integer' },
+    isolateWorkers: { env: 'ISOLATE_WORKERS', flag: '--isolate-workers', type: 'boolean' },
+    workerBasePort: { env: 'WORKER_BASE_PORT', flag: '--worker-base-port', type: 'integer' },
+    apiTimeout: { env: 'API_TIMEOUT', flag: '--api-timeout', type: 'integer' },
+    apiRetries: { env: 'API_RETRIES', flag: '--api-retries', type: 'count' },
+    apiRetryDelay: { env: 'API_RETRY_DELAY', flag: '--api-retry-delay', type: 'integer' },
+    apiStrictContracts: { env: 'API_STRICT_CONTRACTS', flag: '--api-strict-contracts', type: 'boolean' },
+    a11yBaseline: { env: 'A11Y_BASELINE', flag: '--a11y-baseline', type: 'string' },
+    a11yAudit: { env: 'A11Y_AUDIT', flag: '--a11y-audit', type: 'boolean' },
+};
+
+/**
+ * Resolves the test environment from profiles, env vars and CLI flags.
+ *
+ * Precedence (highest wins):
+ *   1. CLI flags        (e.g. --base-url=http://localhost:4000, --headless)
+ *   2. Env vars         (e.g. BASE_URL, DB_PATH, HEADLESS)
+ *   3. Profile file     (wdio.profiles.json, or PROFILE_FILE / --profile-file)
+ *   4. Built-in profile defaults
+ *
+ * The profile itself is chosen by --profile, then TEST_PROFILE, then
+ * auto-detection (CI -> ci, CODESPACES -> codespaces, otherwise local).
+ */
+export class ConfigUtils {
+    /**
+     * Resolve the environment configuration.
+     *
+     * @param argv Command line arguments (defaults to process.argv).
+     * @param env Environment variables (defaults to process.env).
+     * @returns The resolved configuration.
+     * @throws Error if a value is invalid or the resolved shop.db does not exist.
+     */
+    static resolve(
+        argv: string[] = process.argv,
+        env: NodeJS.ProcessEnv = process.env
+    ): EnvironmentConfig {
+        const profile = this.resolveProfileName(argv, env);
+        const profileFile = this.readProfileFile(argv, env);
+
+        const settings: ProfileSettings = {
+            ...SHARED_DEFAULTS,
+            ...this.builtInProfile(profile),
+            ...(profileFile[profile] ?? {}),
+        };
+        const sources: Partial<Record<SettingKey, string>> = {};
+
+        // CI runners and Codespaces have no display, so any profile runs headless
+        // there; only HEADLESS, --headless or --headed override this
+        if (env.CI || env.CODESPACES) {
+            settings.headless = true;
+        }
+
+        for (const key of Object.keys(SETTING_SOURCES) as SettingKey[]) {
+            const { env: envName, flag } = SETTING_SOURCES[key];
+            const cliValue = this.readFlag(argv, flag);
+            const envValue = env[envName];
+
+            if (cliValue !== undefined) {
+                this.assign(settings, key, cliValue, flag);
+                sources[key] = flag;
+            } else if (envValue !== undefined && envValue !== '') {
+                this.assign(settings, key, envValue, envName);
+                sources[key] = envName;
+            }
+        }
+
+        // --headed is the explicit opt-out for profiles that default to headless
+        if (argv.includes('--headed')) {
+            settings.headless = false;
+        }
+
+        const resolved = this.complete(profile, settings);
+        if (profile === 'mock') {
+            this.assertMockCompatible(resolved);
+        } else {
+            this.assertDbExists(resolved, sources.dbPath ?? `'${profile}' profile`);
+        }
+
+        console.log(
+            `⚙️ Profile '${resolved.profile}': baseUrl=${resolved.baseUrl}, dbPath=${resolved.dbPath}, headless=${resolved.headless}`
+        );
+        return resolved;
+    }
+
+    /**
+     * Read the resolved shop.db path from inside a worker.
+     *
+     * wdio.conf.ts exposes `dbPath` as a custom config key, so it is available
+     * on `browser.options`; DB_PATH is kept as a fallback.
+     *
+     * @returns The absolute path to shop.db.
+     * @throws Error if no DB path is configured.
+     */
+    static getDbPath(): string {
+        const options = browser.options as { dbPath?: string; profile?: string };
+        if (options.profile === 'mock') {
+            throw new Error(`The mock app has no shop.db; tag database scenarios @db so the 'mock' profile skips them.`);
+        }
+
+        const dbPath = options.dbPath || process.env.DB_PATH;
+
+        if (!dbPath) {
+            throw new Error('DB path not defined. Set dbPath in wdio.conf.ts or the DB_PATH env var.');
+        }
+        return dbPath;
+    }
+
+    /**
+     * Fail fast when other workers may be using the same shop.db.
+     *
+     * Snapshot/restore and fixtures replace whole tables, so they would wipe
+     * data that other workers' scenarios rely on mid-run. It is only safe when each worker has
+     * its own copy (isolateWorkers) or workers run one at a time
+     * (maxInstances 1); wdio.conf.ts exposes this as the custom `dbExclusive`
+     * config key.
+     *
+     * @param operation What needs the database to itself, for the error message.
+     * @throws Error if shop.db may be shared with parallel workers.
+     */
+    static assertExclusiveDb(operation: string): void {
+        if (!(browser.options as { dbExclusive?: boolean }).dbExclusive) {
+            throw new Error(
+                `${operation} changes the whole of shop.db, which parallel workers share. ` +
+                `Set ISOLATE_WORKERS=true (--isolate-workers) or MAX_INSTANCES=1 (--max-instances=1).`
+            );
+        }
+    }
+
+    /**
+     * Read the ApiUtils timeout/retry policy from inside a worker.
+     *
+     * wdio.conf.ts exposes it as the custom `api` config key; ApiUtils falls
+     * back to its own defaults for anything missing.
+     *
+     * @returns The configured API client options.
+     */
+    static getApiOptions(): Partial<ApiClientOptions> {
+        return (browser.options as { api?: Partial<ApiClientOptions> }).api ?? {};
+    }
+
+    /**
+     * Read the accessibility baseline path from inside a worker.
+     *
+     * wdio.conf.ts exposes it as the custom `a11yBaseline` config key.
+     *
+     * @returns The absolute path to the baseline file, or '' for none.
+     */
+    static getA11yBaselinePath(): string {
+        return (browser.options as { a11yBaseline?: string }).a11yBaseline ?? '';
+    }
+
+    /**
+     * Whether every scenario should be audited at page-object checkpoints
+     * (the custom `a11yAudit` config key); otherwise only @a11y scenarios are.
+     */
+    static isA11yAuditEnabled(): boolean {
+        return (browser.options as { a11yAudit?: boolean }).a11yAudit ?? false;
+    }
+
+    /**
+     * Built-in defaults for each named profile.
+     *
+     * @param profile The profile name.
+     * @returns The profile's default settings.
+     */
+    static builtInProfile(profile: ProfileName): ProfileSettings {
+        switch (profile) {
+            case 'local':
+                // Prefer the child folder (README setup), fall back to the sibling clone
+                return {
+                    dbPath: fs.existsSync(path.resolve(APP_UNDER_TEST_DB)) ? APP_UNDER_TEST_DB : SIBLING_APP_DB,
+                    headless: false,
+                };
+            case 'codespaces':
+            case 'ci':
+                return { dbPath: APP_UNDER_TEST_DB, headless: true, startApp: true };
+            case 'custom':
+                return { baseUrl: undefined };
+            case 'mock':
+                return { baseUrl: 'http://localhost:4000', dbPath: '', startApp: true };
+        }
+    }
+
+    /**
+     * Determine the active profile name.
+     */
+    private static resolveProfileName(argv: string[], env: NodeJS.ProcessEnv): ProfileName {
+        const requested = this.readFlag(argv, '--profile') ?? env.TEST_PROFILE;
+
+        if (requested !== undefined && requested !== '') {
+            if (!PROFILE_NAMES.includes(requested as ProfileName)) {
+                throw new Error(
+                    `Unknown profile '${requested}'. Expected one of: ${PROFILE_NAMES.join(', ')}`
+                );
+            }
+            return requested as ProfileName;
+        }
+
+        if (env.CI) return 'ci';
+        if (env.CODESPACES) return 'codespaces';
+        return 'local';
+    }
+
+    /**
+     * Read the optional profile file. A missing default file is not an error;
+     * a missing file that was explicitly requested is.
+     */
+    private static readProfileFile(argv: string[], env: NodeJS.ProcessEnv): ProfileFile {
+        const requested = this.readFlag(argv, '--profile-file') ?? env.PROFILE_FILE;
+        const filePath = path.resolve(requested || DEFAULT_PROFILE_FILE);
+
+        if (!fs.existsSync(filePath)) {
+            if (requested) {
+                throw new Error(`Profile file not found: ${filePath}`);
+            }
+            return {};
+        }
+
+        try {
+            return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ProfileFile;
+        } catch (error) {
+            throw new Error(`Failed to parse profile file ${filePath}: ${error}`);
+        }
+    }
+
+    /**
+     * Read a CLI flag in either `--flag=value` or `--flag value` form.
+     * Boolean flags given without a value resolve to 'true'.
+     */
+    private static readFlag(argv: string[], flag: string): string | undefined {
+        for (let i = 0; i < argv.length; i++) {
+            const arg = argv[i];
+            if (arg.startsWith(`${flag}=`)) {
+                return arg.slice(flag.length + 1);
+            }
+            if (arg === flag) {
+                const next = argv[i + 1];
+                return next !== undefined && !next.startsWith('--') ? next : 'true';
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Coerce a raw string value into the setting's type.
+     */
+    private static assign(settings: ProfileSettings, key: SettingKey, raw: string, source: string): void {
+        const target = settings as Record<SettingKey, string | boolean | number | undefined>;
+
+        switch (SETTING_SOURCES[key].type) {
+            case 'string':
+                target[key] = raw;
+                break;
+            case 'boolean':
+                if (!/^(true|false|1|0)$/i.test(raw)) {
+                    throw new Error(`Invalid boolean for ${source}: '${raw}'`);
+                }
+                target[key] = /^(true|1)$/i.test(raw);
+                break;
+            case 'integer': {
+                const value = Number(raw);
+                if (!Number.isInteger(value) || value <= 0) {
+                    throw new Error(`Invalid positive integer for ${source}: '${raw}'`);
+                }
+                target[key] = value;
+                break;
+            }
+            case 'count': {
+                const value = Number(raw);
+                if (!Number.isInteger(value) || value < 0) {
+                    throw new Error(`Invalid non-negative integer for ${source}: '${raw}'`);
+                }
+                target[key] = value;
+                break;
+            }
+        }
+    }
+
+    /**
+     * Ensure every setting has a value and normalise paths.
+     */
+    private static complete(profile: ProfileName, settings: ProfileSettings): EnvironmentConfig {
+        const missing = (Object.keys(SETTING_SOURCES) as SettingKey[])
+            .filter((key) => settings[key] === undefined);
+
+        if (missing.length > 0) {
+            const hints = missing.map((key) => `${key} (${SETTING_SOURCES[key].env} / ${SETTING_SOURCES[key].flag})`);
+            throw new Error(`Profile '${profile}' is missing required settings: ${hints.join(', ')}`);
+        }
+
+        const complete = settings as Settings;
+        const dbPath = complete.dbPath ? path.resolve(complete.dbPath) : '';
+        return {
+            ...complete,
+            profile,
+            baseUrl: complete.baseUrl.replace(/\/+$/, ''),
+            dbPath,
+            appDir: complete.appDir ? path.resolve(complete.appDir) : dbPath && path.dirname(dbPath),
+            a11yBaseline: complete.a11yBaseline && path.resolve(complete.a11yBaseline),
+        };
+    }
+
+    /**
+     * The mock app runs inside the launcher, so there is no app directory to copy per worker.
+     */
+    private static assertMockCompatible(config: EnvironmentConfig): void {
+        if (config.isolateWorkers) {
+            throw new Error(`isolateWorkers is not supported with the 'mock' profile`);
+        }
+    }
+
+    /**
+     * Fail fast when shop.db is missing, instead of erroring deep inside a DB step.
+     */
+    private static assertDbExists(config: EnvironmentConfig, source: string): void {
+        if (!fs.existsSync(config.dbPath)) {
+            throw new Error(
+                `shop.db not found at '${config.dbPath}' (resolved from ${source}). ` +
+                `Clone the app-under-test (see README) or set DB_PATH / --db-path.`
+            );
+        }
+    }
+}
@@ -0,0 +1,87 @@
+/**
+ * The subset of JSON Schema understood by ContractUtils.
+ */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+    description?: string;
+    /** Object: schemas for known properties. */
+    properties?: Record<string, JsonSchema>;
+    /** Object: properties that must be present. */
+    required?: string[];
+    /** Object: whether properties not listed in `properties` are allowed (default true). */
+    additionalProperties?: boolean;
+    /** Array: schema every element must match. */
+    items?: JsonSchema;
+    /** Number/integer: inclusive lower bound. */
+    minimum?: number;
+    /** Any: the value must equal one of these. */
+    enum?: unknown[];
+}
+
+/**
+ * Validates response bodies against JSON-Schema-style contracts.
+ *
+ * Deliberately small: only the keywords in JsonSchema are supported, which is
+ * enough to catch missing fields, renamed fields and type changes.
+ */
+export class ContractUtils {
+    /**
+     * Validate a value against a schema.
+     *
+     * @param schema The contract.
+     * @param value The value to check (e.g. a parsed response body).
+     * @param path JSON path of the value, used in messages.
+     * @returns One message per violation; empty when the value matches.
+     */
+    static validate(schema: JsonSchema, value: unknown, path: string = '$'): string[] {
+        if (schema.type && !this.hasType(value, schema.type)) {
+            return [`${path}: expected ${schema.type}, got ${this.typeOf(value)}`];
+        }
+
+        const errors: string[] = [];
+
+        if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+            errors.push(`${path}: expected one of ${JSON.stringify(schema.enum)}, got ${JSON.stringify(value)}`);
+        }
+        if (schema.minimum !== undefined && typeof value === 'number' && value < schema.minimum) {
+            errors.push(`${path}: expected >= ${schema.minimum}, got ${value}`);
+        }
+
+        if (Array.isArray(value) && schema.items) {
+            value.forEach((item, i) => errors.push(...this.validate(schema.items!, item, `${path}[${i}]`)));
+        }
+
+        if (this.typeOf(value) === 'object') {
+            const record = value as Record<string, unknown>;
+            const properties = schema.properties ?? {};
+
+            for (const key of schema.required ?? []) {
+                if (!(key in record)) {
+                    errors.push(`${path}.${key}: required property is missing`);
+                }
+            }
+            for (const [key, propertyValue] of Object.entries(record)) {
+                if (properties[key]) {
+                    errors.push(...this.validate(properties[key], propertyValue, `${path}.${key}`));
+                } else if (schema.additionalProperties === false) {
+                    errors.push(`${path}.${key}: unexpected property`);
+                }
+            }
+        }
+
+        return errors;
+    }
+
+    private static hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+        if (type === 'integer') {
+            return Number.isInteger(value);
+        }
+        return this.typeOf(value) === type;
+    }
+
+    private static typeOf(value: unknown): string {
+        if (value === null) return 'null';
+        if (Array.isArray(value)) return 'array';
+        return typeof value;
+    }
+}
@@ -0,0 +1,45 @@
+/**
+ * Row types for the app-under-test's shop.db tables.
+ *
+ * Used as type arguments for DbUtils queries, e.g. `DbUtils.fetchOne<CartRow>(...)`.
+ */
+
+/**
+ * A value that can be bound to a `?` placeholder.
+ */
+export type SqlParam = string | number | boolean | null | Buffer;
+
+/**
+ * Row of the `cart` table: one row per item in the cart.
+ */
+export interface CartRow {
+    item_id: number;
+    quantity: number;
+}
+
+/**
+ * Row of the `items` table: the product catalog.
+ */
+export interface ItemRow {
+    id: number;
+    name: string;
+    price: number;
+}
+
+/**
+ * A cart row joined with its `items` row.
+ */
+export interface CartItemRow extends CartRow {
+    name: string;
+    price: number;
+}
+
+/**
+ * Result of a write statement.
+ */
+export interface RunResult {
+    /** Number of rows inserted, updated or deleted. */
+    changes: number;
+    /** Row id of the last inserted row. */
+    lastId: number;
+}
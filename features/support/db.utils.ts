@@ -2,37 +2,94 @@ import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
 
 // Use the manually created 'require' to load the old library
-const sqlite3 = require('sqlite3').verbose();
+const sqlite3: typeof import('sqlite3') = require('sqlite3').verbose();
+import { AsyncLocalStorage } from 'async_hooks';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import type { Database } from 'sqlite3';
+
+import type { CartItemRow, CartRow, ItemRow, RunResult, SqlParam } from './db.types';
+
+/**
+ * How long a statement waits on a lock held by the app before failing.
+ */
+const BUSY_TIMEOUT_MS = 5000;
 
 /**
  * Database utility class for interacting with the SQLite shop.db.
  * 
  * Ported from e2e-playwright/utils/dbHelpers.py.
  * Uses sqlite3 for asynchronous SQLite access.
+ * 
+ * Connections are pooled: one handle per DB path is opened on first use and
+ * kept until closeAll() (called in the After hook at the end of each scenario).
  */
 export class DbUtils {
+    private static connections = new Map<string, Promise<Database>>();
+    // Tail of the queue of top-level transactions waiting for each connection
+    private static transactionQueues = new Map<string, Promise<void>>();
+    // Transaction depth per DB path for the current call chain
+    private static activeTransactions = new AsyncLocalStorage<Map<string, number>>();
+
     /**
-     * Establish a new SQLite connection to the given database path.
+     * Get the pooled SQLite connection for the given database path,
+     * opening it on first use.
      * 
      * @param dbPath The absolute or relative path to shop.db (e.g., "app-under-test/shop.db")
      * @returns A Promise resolving to a SQLite Database connection.
      */
-    static getConnection(dbPath: string): Promise<any> {
-        return new Promise((resolve, reject) => {
-            // Resolve relative paths from the project root
-            const resolvedPath = path.isAbsolute(dbPath)
-                ? dbPath
-                : path.resolve(process.cwd(), dbPath);
+    static getConnection(dbPath: string): Promise<Database> {
+        const resolvedPath = this.resolvePath(dbPath);
+        const existing = this.connections.get(resolvedPath);
+        if (existing) {
+            return existing;
+        }
 
-            const db = new sqlite3.Database(resolvedPath, (err: any) => {
+        const connection = new Promise<Database>((resolve, reject) => {
+            const db = new sqlite3.Database(resolvedPath, (err: Error | null) => {
                 if (err) {
                     reject(err);
                 } else {
+                    db.configure('busyTimeout', BUSY_TIMEOUT_MS);
                     resolve(db);
                 }
             });
         });
+
+        // Do not cache a failed open; the next call should retry
+        connection.catch(() => this.connections.delete(resolvedPath));
+        this.connections.set(resolvedPath, connection);
+        return connection;
+    }
+
+    /**
+     * Close the pooled connection for one database path (no-op if not open).
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @returns A Promise that resolves when the connection is closed.
+     */
+    static async close(dbPath: string): Promise<void> {
+        const resolvedPath = this.resolvePath(dbPath);
+        const connection = this.connections.get(resolvedPath);
+        if (!connection) {
+            return;
+        }
+
+        this.connections.delete(resolvedPath);
+        const db = await connection;
+        await new Promise<void>((resolve, reject) => {
+            db.close((err: Error | null) => (err ? reject(err) : resolve()));
+        });
+    }
+
+    /**
+     * Close every pooled connection. Call at the end of each scenario.
+     * 
+     * @returns A Promise that resolves when all connections are closed.
+     */
+    static async closeAll(): Promise<void> {
+        await Promise.all([...this.connections.keys()].map((dbPath) => this.close(dbPath)));
     }
 
     /**
@@ -43,29 +100,23 @@ export class DbUtils {
      * @param dbPath The absolute or relative path to shop.db.
      * @param query SQL SELECT statement with optional ? placeholders.
      * @param params Query parameters (in order matching ? placeholders). Optional.
-     * @returns A Promise resolving to a single row as an object, or null if no rows match.
+     * @returns A Promise resolving to a single row, or null if no rows match.
      */
-    static fetchOne(
+    static async fetchOne<T extends object = Record<string, unknown>>(
         dbPath: string,
         query: string,
-        params: any[] = []
-    ): Promise<Record<string, any> | null> {
-        return new Promise(async (resolve, reject) => {
-            try {
-                const db = await this.getConnection(dbPath);
+        params: SqlParam[] = []
+    ): Promise<T | null> {
+        const db = await this.connectionFor(dbPath);
 
-                db.get(query, params, (err: Error | null, row: any) => {
-                    db.close();
-
-                    if (err) {
-                        reject(err);
-                    } else {
-                        resolve(row || null);
-                    }
-                });
-            } catch (err) {
-                reject(err);
-            }
+        return new Promise((resolve, reject) => {
+            db.get<T>(query, params, (err: Error | null, row: T) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(row || null);
+                }
+            });
         });
     }
 
@@ -77,66 +128,214 @@ export class DbUtils {
      * @param dbPath The absolute or relative path to shop.db.
      * @param query SQL SELECT statement with optional ? placeholders.
      * @param params Query parameters (in order matching ? placeholders). Optional.
-     * @returns A Promise resolving to an array of row objects. Empty array if no rows found.
+     * @returns A Promise resolving to an array of rows. Empty array if no rows found.
      */
-    static fetchAll(
+    static async fetchAll<T extends object = Record<string, unknown>>(
         dbPath: string,
         query: string,
-        params: any[] = []
-    ): Promise<Record<string, any>[]> {
-        return new Promise(async (resolve, reject) => {
-            try {
-                const db = await this.getConnection(dbPath);
-
-                db.all(query, params, (err: Error | null, rows: any[]) => {
-                    db.close();
+        params: SqlParam[] = []
+    ): Promise<T[]> {
+        const db = await this.connectionFor(dbPath);
 
-                    if (err) {
-                        reject(err);
-                    } else {
-                        resolve(rows || []);
-                    }
-                });
-            } catch (err) {
-                reject(err);
-            }
+        return new Promise((resolve, reject) => {
+            db.all<T>(query, params, (err: Error | null, rows: T[]) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve(rows || []);
+                }
+            });
         });
     }
 
     /**
-     * Execute a write (INSERT/UPDATE/DELETE) and commit.
+     * Execute a write (INSERT/UPDATE/DELETE).
+     * 
+     * Equivalent to Python's execute_query(query, params). Outside a transaction
+     * SQLite autocommits each statement.
      * 
-     * Equivalent to Python's execute_query(query, params).
+     * Statements made outside a transaction (this and fetchOne/fetchAll) wait
+     * for any transaction open or queued on the connection, so they never
+     * join it or get rolled back with it.
      * 
      * @param dbPath The absolute or relative path to shop.db.
      * @param query SQL INSERT/UPDATE/DELETE statement with optional ? placeholders.
      * @param params Query parameters (in order matching ? placeholders). Optional.
-     * @returns A Promise that resolves when the query completes.
+     * @returns A Promise resolving to the number of changed rows and the last inserted row id.
      */
-    static executeQuery(
+    static async executeQuery(
         dbPath: string,
         query: string,
-        params: any[] = []
-    ): Promise<void> {
-        return new Promise(async (resolve, reject) => {
-            try {
-                const db = await this.getConnection(dbPath);
+        params: SqlParam[] = []
+    ): Promise<RunResult> {
+        const db = await this.connectionFor(dbPath);
 
-                db.run(query, params, (err: Error | null) => {
-                    db.close();
+        return new Promise((resolve, reject) => {
+            db.run(query, params, function (err: Error | null) {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve({ changes: this.changes, lastId: this.lastID });
+                }
+            });
+        });
+    }
+
+    /**
+     * Run a unit of work inside a transaction on the pooled connection.
+     * 
+     * Commits if the callback resolves and rolls back if it throws. Nested calls
+     * for the same database (made from inside the callback) use savepoints, so
+     * they can be rolled back independently. Concurrent top-level calls share
+     * the pooled connection, so they are queued and run one at a time.
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @param work Callback performing queries through DbUtils with the same dbPath.
+     * @returns A Promise resolving to the callback's result.
+     */
+    static async transaction<T>(dbPath: string, work: () => Promise<T>): Promise<T> {
+        const resolvedPath = this.resolvePath(dbPath);
+        const depth = this.activeTransactions.getStore()?.get(resolvedPath) ?? 0;
+        if (depth > 0) {
+            return this.runTransaction(dbPath, resolvedPath, depth, work);
+        }
+
+        const previous = this.transactionQueues.get(resolvedPath) ?? Promise.resolve();
+        let release!: () => void;
+        const done = new Promise<void>((resolve) => { release = resolve; });
+        const tail = previous.then(() => done);
+        this.transactionQueues.set(resolvedPath, tail);
+
+        await previous;
+        try {
+            return await this.runTransaction(dbPath, resolvedPath, 0, work);
+        } finally {
+            release();
+            if (this.transactionQueues.get(resolvedPath) === tail) {
+                this.transactionQueues.delete(resolvedPath);
+            }
+        }
+    }
 
-                    if (err) {
-                        reject(err);
+    /**
+     * Open a transaction (depth 0) or savepoint, run the callback with the new
+     * depth recorded for its call chain, then commit or roll back.
+     * 
+     * A failing rollback is logged; the callback's error is the one rethrown.
+     */
+    private static async runTransaction<T>(
+        dbPath: string,
+        resolvedPath: string,
+        depth: number,
+        work: () => Promise<T>
+    ): Promise<T> {
+        const savepoint = `sp_${depth}`;
+        const depths = new Map(this.activeTransactions.getStore());
+        depths.set(resolvedPath, depth + 1);
+
+        // Statements from here on (BEGIN/COMMIT included) belong to this transaction
+        return this.activeTransactions.run(depths, async () => {
+            // IMMEDIATE takes the write lock up front so the app cannot interleave writes
+            await this.executeQuery(dbPath, depth === 0 ? 'BEGIN IMMEDIATE' : `SAVEPOINT ${savepoint}`);
+
+            try {
+                const result = await work();
+                await this.executeQuery(dbPath, depth === 0 ? 'COMMIT' : `RELEASE ${savepoint}`);
+                return result;
+            } catch (error) {
+                try {
+                    if (depth === 0) {
+                        await this.executeQuery(dbPath, 'ROLLBACK');
                     } else {
-                        resolve();
+                        await this.executeQuery(dbPath, `ROLLBACK TO ${savepoint}`);
+                        await this.executeQuery(dbPath, `RELEASE ${savepoint}`);
                     }
-                });
-            } catch (err) {
-                reject(err);
+                } catch (rollbackError) {
+                    console.error(`⚠️ Rollback failed on ${dbPath}: ${rollbackError}`);
+                }
+                throw error;
             }
         });
     }
 
+    /**
+     * The pooled connection for one statement. Outside a transaction on that
+     * database, waits until no transaction is open or queued on it.
+     */
+    private static async connectionFor(dbPath: string): Promise<Database> {
+        const db = await this.getConnection(dbPath);
+        const resolvedPath = this.resolvePath(dbPath);
+
+        if (!this.activeTransactions.getStore()?.has(resolvedPath)) {
+            let queue: Promise<void> | undefined;
+            while ((queue = this.transactionQueues.get(resolvedPath))) {
+                await queue;
+            }
+        }
+        return db;
+    }
+
+    /**
+     * Take a consistent copy of the whole database (all tables) in a temp file.
+     * 
+     * Uses `VACUUM INTO`, so it is safe while the app holds its own connection.
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @returns A Promise resolving to the snapshot file path (pass it to restore()).
+     */
+    static async snapshot(dbPath: string): Promise<string> {
+        const snapshotDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shop-db-snapshot-'));
+        const snapshotPath = path.join(snapshotDir, 'shop.db');
+
+        await this.executeQuery(dbPath, 'VACUUM INTO ?', [snapshotPath]);
+        console.log(`📸 Database snapshot taken: ${snapshotPath}`);
+        return snapshotPath;
+    }
+
+    /**
+     * Restore every table from a snapshot and delete the snapshot file.
+     * 
+     * Rows are copied back inside one transaction on the existing file (rather than
+     * replacing the file), so the app's open connection sees the restored data.
+     * Tables created after the snapshot are left untouched.
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @param snapshotPath Path returned by snapshot().
+     * @returns A Promise that resolves when the data has been restored.
+     */
+    static async restore(dbPath: string, snapshotPath: string): Promise<void> {
+        // ATTACH/DETACH are not allowed inside a transaction
+        await this.executeQuery(dbPath, 'ATTACH DATABASE ? AS snapshot', [snapshotPath]);
+
+        try {
+            const tables = await this.fetchAll<{ name: string }>(
+                dbPath,
+                "SELECT name FROM snapshot.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'"
+            );
+            const hasSequence = await this.fetchOne(
+                dbPath,
+                "SELECT name FROM snapshot.sqlite_master WHERE type = 'table' AND name = 'sqlite_sequence'"
+            );
+
+            await this.transaction(dbPath, async () => {
+                for (const { name } of tables) {
+                    await this.executeQuery(dbPath, `DELETE FROM main."${name}"`);
+                    await this.executeQuery(dbPath, `INSERT INTO main."${name}" SELECT * FROM snapshot."${name}"`);
+                }
+                // Keep AUTOINCREMENT counters in step with the restored rows
+                if (hasSequence) {
+                    await this.executeQuery(dbPath, 'DELETE FROM main.sqlite_sequence');
+                    await this.executeQuery(dbPath, 'INSERT INTO main.sqlite_sequence SELECT * FROM snapshot.sqlite_sequence');
+                }
+            });
+        } finally {
+            await this.executeQuery(dbPath, 'DETACH DATABASE snapshot');
+        }
+
+        fs.rmSync(path.dirname(snapshotPath), { recursive: true, force: true });
+        console.log(`♻️ Database restored from snapshot (${dbPath})`);
+    }
+
     /**
      * Delete all rows from the given table (simple test cleanup helper).
      * 
@@ -146,8 +345,8 @@ export class DbUtils {
      * @param tableName The name of the table to clear (e.g., "cart").
      * @returns A Promise that resolves when the deletion completes.
      */
-    static resetTable(dbPath: string, tableName: string): Promise<void> {
-        return this.executeQuery(dbPath, `DELETE FROM ${tableName}`);
+    static async resetTable(dbPath: string, tableName: string): Promise<void> {
+        await this.executeQuery(dbPath, `DELETE FROM ${tableName}`);
     }
 
     /**
@@ -160,13 +359,13 @@ export class DbUtils {
      * @returns A Promise resolving to the quantity in the cart, or 0 if the item is not in the cart.
      */
     static async getCartQuantity(dbPath: string, itemId: number): Promise<number> {
-        const row = await this.fetchOne(
+        const row = await this.fetchOne<Pick<CartRow, 'quantity'>>(
             dbPath,
             'SELECT quantity FROM cart WHERE item_id = ?',
             [itemId]
         );
 
-        return row && row.quantity ? parseInt(row.quantity, 10) : 0;
+        return row && row.quantity ? Number(row.quantity) : 0;
     }
 
     /**
@@ -179,13 +378,30 @@ export class DbUtils {
      * @returns A Promise resolving to the item's name (e.g., "Koala"), or null if not found.
      */
     static async getItemName(dbPath: string, itemId: number): Promise<string | null> {
-        const row = await this.fetchOne(
+        const row = await this.fetchOne<Pick<ItemRow, 'name'>>(
             dbPath,
             'SELECT name FROM items WHERE id = ?',
             [itemId]
         );
 
-        return row && row.name ? (row.name as string) : null;
+        return row && row.name ? row.name : null;
+    }
+
+    /**
+     * Return the id of the item with the given name (or null if not found).
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @param name The item's name (e.g., "Koala").
+     * @returns A Promise resolving to the item's id, or null if not found.
+     */
+    static async getItemId(dbPath: string, name: string): Promise<number | null> {
+        const row = await this.fetchOne<Pick<ItemRow, 'id'>>(
+            dbPath,
+            'SELECT id FROM items WHERE name = ?',
+            [name]
+        );
+
+        return row ? Number(row.id) : null;
     }
 
     /**
@@ -197,11 +413,45 @@ export class DbUtils {
      * @returns A Promise resolving to the sum of all quantities in the cart, or 0 if cart is empty.
      */
     static async getCartTotal(dbPath: string): Promise<number> {
-        const row = await this.fetchOne(
+        const row = await this.fetchOne<{ total: number | null }>(
             dbPath,
             'SELECT SUM(quantity) AS total FROM cart'
         );
 
-        return row && row.total ? parseInt(row.total, 10) : 0;
+        return row && row.total ? Number(row.total) : 0;
+    }
+
+    /**
+     * Return every cart row joined with its item's name and price, ordered by item id.
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @returns A Promise resolving to the cart contents. Empty array if the cart is empty.
+     */
+    static async getCartContents(dbPath: string): Promise<CartItemRow[]> {
+        return this.fetchAll<CartItemRow>(
+            dbPath,
+            'SELECT c.item_id, i.name, c.quantity, i.price ' +
+            'FROM cart c JOIN items i ON i.id = c.item_id ' +
+            'ORDER BY c.item_id'
+        );
+    }
+
+    /**
+     * Return the whole product catalog, ordered by id.
+     * 
+     * @param dbPath The absolute or relative path to shop.db.
+     * @returns A Promise resolving to every row of the items table.
+     */
+    static async getItems(dbPath: string): Promise<ItemRow[]> {
+        return this.fetchAll<ItemRow>(dbPath, 'SELECT id, name, price FROM items ORDER BY id');
+    }
+
+    /**
+     * Resolve relative paths from the project root so each file maps to one pooled handle.
+     */
+    private static resolvePath(dbPath: string): string {
+        return path.isAbsolute(dbPath)
+            ? dbPath
+            : path.resolve(process.cwd(), dbPath);
     }
-}
\ No newline at end of file
+}
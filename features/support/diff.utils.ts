@@ -0,0 +1,90 @@
+/**
+ * A row compared by DiffUtils: column name -> cell value.
+ */
+export type TableRow = Record<string, unknown>;
+
+/**
+ * Result of comparing two tables.
+ */
+export interface TableDiff {
+    /** True when every expected row was found and no extra rows exist. */
+    matches: boolean;
+    /** Expected rows with no matching actual row. */
+    missing: TableRow[];
+    /** Actual rows with no matching expected row. */
+    unexpected: TableRow[];
+    /** Aligned, human-readable expected-vs-actual table. */
+    text: string;
+}
+
+/**
+ * Utilities for comparing tabular data (e.g. a Cucumber data table against DB rows).
+ */
+export class DiffUtils {
+    /**
+     * Compare expected rows against actual rows, ignoring row order.
+     *
+     * Only the given columns are compared, and cells are compared as trimmed
+     * strings so "2" from a data table equals 2 from SQLite. Numeric cells are
+     * compared by value, so "5.00" equals 5.
+     *
+     * The text output marks each row with ' ' (in both), '-' (expected but
+     * missing from actual) or '+' (in actual but not expected).
+     *
+     * @param expected Rows that should be present.
+     * @param actual Rows that are present.
+     * @param columns Columns to compare (and display), in display order.
+     * @returns The comparison result.
+     */
+    static diffTables(expected: object[], actual: object[], columns: string[]): TableDiff {
+        const key = (row: TableRow) => columns.map((column) => this.normalize(row[column])).join('\u0000');
+
+        const remaining = [...actual] as TableRow[];
+        const lines: Array<{ marker: ' ' | '-' | '+'; row: TableRow }> = [];
+        const missing: TableRow[] = [];
+
+        for (const row of expected as TableRow[]) {
+            const index = remaining.findIndex((candidate) => key(candidate) === key(row));
+            if (index === -1) {
+                missing.push(row);
+                lines.push({ marker: '-', row });
+            } else {
+                remaining.splice(index, 1);
+                lines.push({ marker: ' ', row });
+            }
+        }
+        for (const row of remaining) {
+            lines.push({ marker: '+', row });
+        }
+
+        const widths = columns.map((column) =>
+            Math.max(column.length, ...lines.map(({ row }) => this.cell(row[column]).length))
+        );
+        const format = (marker: string, cells: string[]) =>
+            `${marker} | ${cells.map((cell, i) => cell.padEnd(widths[i])).join(' | ')} |`;
+
+        const text = [
+            format(' ', columns),
+            format(' ', widths.map((width) => '-'.repeat(width))),
+            ...lines.map(({ marker, row }) => format(marker, columns.map((column) => this.cell(row[column])))),
+            '',
+            `(-) expected but missing: ${missing.length}   (+) present but not expected: ${remaining.length}`,
+        ].join('\n');
+
+        return {
+            matches: missing.length === 0 && remaining.length === 0,
+            missing,
+            unexpected: remaining,
+            text,
+        };
+    }
+
+    private static cell(value: unknown): string {
+        return value === null || value === undefined ? '' : String(value).trim();
+    }
+
+    private static normalize(value: unknown): string {
+        const text = this.cell(value);
+        return /^-?\d+(\.\d+)?$/.test(text) ? String(Number(text)) : text;
+    }
+}
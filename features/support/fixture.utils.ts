@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+
+import { DbUtils } from './db.utils';
+import type { ItemRow } from './db.types';
+
+/**
+ * A catalog entry in a seed file. Existing ids are updated, new ids inserted.
+ */
+export type ItemFixture = ItemRow;
+
+/**
+ * A cart entry in a seed file. The item is referenced by `item_id` or by `item` (name).
+ */
+export interface CartFixture {
+    item_id?: number;
+    item?: string;
+    quantity: number;
+}
+
+/**
+ * Contents of a seed file in features/fixtures/ (.yml, .yaml or .json).
+ *
+ * If `cart` is present it replaces the whole cart; omit it to leave the cart alone.
+ */
+export interface Fixture {
+    description?: string;
+    items?: ItemFixture[];
+    cart?: CartFixture[];
+}
+
+const FIXTURE_EXTENSIONS = ['.yml', '.yaml', '.json'];
+
+/**
+ * Loads declarative seed files and applies them to shop.db.
+ *
+ * Fixtures that change `items` should be used with the @restore-db tag so the
+ * catalog is put back after the scenario. Applying a fixture replaces the cart,
+ * so only do it when no other worker shares shop.db (see
+ * ConfigUtils.assertExclusiveDb).
+ */
+export class FixtureUtils {
+    /**
+     * Directory searched for seed files.
+     */
+    static fixtureDir = path.resolve(process.cwd(), 'features', 'fixtures');
+
+    /**
+     * Read and validate a seed file by name.
+     *
+     * @param name File name without extension (e.g., "multi-item-cart").
+     * @returns The parsed fixture.
+     * @throws Error if no matching file exists or its contents are invalid.
+     */
+    static load(name: string): Fixture {
+        const filePath = FIXTURE_EXTENSIONS
+            .map((extension) => path.join(this.fixtureDir, `${name}${extension}`))
+            .find((candidate) => fs.existsSync(candidate));
+
+        if (!filePath) {
+            throw new Error(
+                `Fixture '${name}' not found in ${this.fixtureDir} (tried ${FIXTURE_EXTENSIONS.join(', ')})`
+            );
+        }
+
+        const raw = fs.readFileSync(filePath, 'utf-8');
+        const fixture = (filePath.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw)) as Fixture;
+        this.validate(name, fixture);
+        return fixture;
+    }
+
+    /**
+     * Apply a fixture to the database inside a single transaction.
+     * Nothing is written if any row fails.
+     *
+     * @param dbPath The absolute or relative path to shop.db.
+     * @param fixture The fixture to apply.
+     * @returns A Promise that resolves when the fixture is committed.
+     */
+    static async apply(dbPath: string, fixture: Fixture): Promise<void> {
+        await DbUtils.transaction(dbPath, async () => {
+            for (const item of fixture.items ?? []) {
+                await DbUtils.executeQuery(
+                    dbPath,
+                    'INSERT INTO items (id, name, price) VALUES (?, ?, ?) ' +
+                    'ON CONFLICT(id) DO UPDATE SET name = excluded.name, price = excluded.price',
+                    [item.id, item.name, item.price]
+                );
+            }
+
+            if (fixture.cart) {
+                await DbUtils.resetTable(dbPath, 'cart');
+                for (const entry of fixture.cart) {
+                    const itemId = await this.resolveItemId(dbPath, entry);
+                    await DbUtils.executeQuery(
+                        dbPath,
+                        'INSERT INTO cart (item_id, quantity) VALUES (?, ?)',
+                        [itemId, entry.quantity]
+                    );
+                }
+            }
+        });
+    }
+
+    /**
+     * Load a seed file by name and apply it.
+     *
+     * @param dbPath The absolute or relative path to shop.db.
+     * @param name File name without extension (e.g., "multi-item-cart").
+     * @returns A Promise resolving to the applied fixture.
+     */
+    static async loadAndApply(dbPath: string, name: string): Promise<Fixture> {
+        const fixture = this.load(name);
+        await this.apply(dbPath, fixture);
+
+        console.log(
+            `🌱 Fixture '${name}' loaded (${fixture.items?.length ?? 0} items, ` +
+            `${fixture.cart ? `${fixture.cart.length} cart rows` : 'cart unchanged'})`
+        );
+        return fixture;
+    }
+
+    /**
+     * Resolve a cart entry's item reference to an id.
+     */
+    private static async resolveItemId(dbPath: string, entry: CartFixture): Promise<number> {
+        if (entry.item_id !== undefined) {
+            return entry.item_id;
+        }
+
+        const row = await DbUtils.fetchOne<Pick<ItemRow, 'id'>>(
+            dbPath,
+            'SELECT id FROM items WHERE name = ?',
+            [entry.item!]
+        );
+        if (!row) {
+            throw new Error(`Fixture cart entry references unknown item '${entry.item}'`);
+        }
+        return row.id;
+    }
+
+    /**
+     * Check the parsed file has the expected shape, with errors naming the offending entry.
+     */
+    private static validate(name: string, fixture: Fixture): void {
+        const fail = (message: string): never => {
+            throw new Error(`Invalid fixture '${name}': ${message}`);
+        };
+
+        if (!fixture || typeof fixture !== 'object') {
+            fail('expected an object with "items" and/or "cart"');
+        }
+        if (fixture.items !== undefined && !Array.isArray(fixture.items)) {
+            fail('"items" must be a list');
+        }
+        if (fixture.cart !== undefined && !Array.isArray(fixture.cart)) {
+            fail('"cart" must be a list');
+        }
+
+        (fixture.items ?? []).forEach((item, index) => {
+            if (!Number.isInteger(item.id)) fail(`items[${index}].id must be an integer`);
+            if (typeof item.name !== 'string' || item.name === '') fail(`items[${index}].name must be a non-empty string`);
+            if (typeof item.price !== 'number' || item.price < 0) fail(`items[${index}].price must be a non-negative number`);
+        });
+
+        (fixture.cart ?? []).forEach((entry, index) => {
+            if ((entry.item_id === undefined) === (entry.item === undefined)) {
+                fail(`cart[${index}] must set exactly one of "item_id" or "item"`);
+            }
+            if (entry.item_id !== undefined && !Number.isInteger(entry.item_id)) {
+                fail(`cart[${index}].item_id must be an integer`);
+            }
+            if (!Number.isInteger(entry.quantity) || entry.quantity <= 0) {
+                fail(`cart[${index}].quantity must be a positive integer`);
+            }
+        });
+    }
+}
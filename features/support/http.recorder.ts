@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import allureReporter from '@wdio/allure-reporter';
+
+/**
+ * One recorded API call.
+ */
+export interface HttpExchange {
+    method: string;
+    url: string;
+    requestHeaders: Record<string, string>;
+    requestBody: unknown;
+    /** HTTP status, or 0 if no response was received. */
+    status: number;
+    statusText: string;
+    responseHeaders: Record<string, string>;
+    responseBody: unknown;
+    startedAt: string;
+    durationMs: number;
+    /** Network-level error (e.g. ECONNREFUSED) when there was no response. */
+    error?: string;
+}
+
+const HAR_DIR = path.join('logs', 'har');
+
+/**
+ * Records every request made through an axios client during a scenario.
+ *
+ * ApiUtils installs the interceptors on its client; the cart.steps.ts hooks
+ * reset the log before each scenario and attach it to Allure afterwards, both
+ * as readable JSON and as a HAR file (also written to logs/har/).
+ */
+export class HttpRecorder {
+    private static exchanges: HttpExchange[] = [];
+    private static startTimes = new WeakMap<InternalAxiosRequestConfig, number>();
+
+    /**
+     * Add the recording interceptors to an axios client.
+     *
+     * @param client The axios instance to record.
+     */
+    static install(client: AxiosInstance): void {
+        client.interceptors.request.use((config) => {
+            this.startTimes.set(config, Date.now());
+            return config;
+        });
+
+        client.interceptors.response.use(
+            (response) => {
+                this.record(response.config, response);
+                return response;
+            },
+            (error: AxiosError) => {
+                if (error.config) {
+                    this.record(error.config, error.response, error.code ?? error.message);
+                }
+                return Promise.reject(error);
+            }
+        );
+    }
+
+    /**
+     * Clear the recorded exchanges. Call at the start of each scenario.
+     */
+    static reset(): void {
+        this.exchanges = [];
+    }
+
+    /**
+     * Exchanges recorded since the last reset().
+     *
+     * @returns A copy of the recorded exchanges, oldest first.
+     */
+    static getExchanges(): HttpExchange[] {
+        return [...this.exchanges];
+    }
+
+    /**
+     * Attach the recorded exchanges to the Allure report and write a HAR file.
+     * Does nothing if no API calls were made.
+     *
+     * @param scenarioName Used to name the HAR file.
+     */
+    static attachToReport(scenarioName: string): void {
+        if (this.exchanges.length === 0) {
+            return;
+        }
+
+        allureReporter.addAttachment('API Calls', JSON.stringify(this.exchanges, null, 2), 'application/json');
+
+        const har = JSON.stringify(this.toHar(), null, 2);
+        allureReporter.addAttachment('API Calls (HAR)', har, 'application/json');
+
+        const fileName = `${scenarioName.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${Date.now()}.har`;
+        fs.mkdirSync(HAR_DIR, { recursive: true });
+        fs.writeFileSync(path.join(HAR_DIR, fileName), har);
+    }
+
+    /**
+     * Convert the recorded exchanges to HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/).
+     *
+     * @returns The HAR document.
+     */
+    static toHar(): object {
+        const headerList = (headers: Record<string, string>) =>
+            Object.entries(headers).map(([name, value]) => ({ name, value }));
+        const bodyText = (body: unknown) =>
+            body === undefined || body === null ? '' : typeof body === 'string' ? body : JSON.stringify(body);
+
+        return {
+            log: {
+                version: '1.2',
+                creator: { name: 'e2e-wdio-cucumber', version: '1.0' },
+                entries: this.exchanges.map((exchange) => ({
+                    startedDateTime: exchange.startedAt,
+                    time: exchange.durationMs,
+                    request: {
+                        method: exchange.method,
+                        url: exchange.url,
+                        httpVersion: 'HTTP/1.1',
+                        headers: headerList(exchange.requestHeaders),
+                        queryString: [],
+                        ...(exchange.requestBody !== undefined && exchange.requestBody !== null && {
+                            postData: { mimeType: 'application/json', text: bodyText(exchange.requestBody) },
+                        }),
+                        headersSize: -1,
+                        bodySize: bodyText(exchange.requestBody).length,
+                    },
+                    response: {
+                        status: exchange.status,
+                        statusText: exchange.statusText,
+                        httpVersion: 'HTTP/1.1',
+                        headers: headerList(exchange.responseHeaders),
+                        content: {
+                            size: bodyText(exchange.responseBody).length,
+                            mimeType: exchange.responseHeaders['content-type'] ?? '',
+                            text: bodyText(exchange.responseBody),
+                        },
+                        redirectURL: '',
+                        headersSize: -1,
+                        bodySize: bodyText(exchange.responseBody).length,
+                        ...(exchange.error && { _error: exchange.error }),
+                    },
+                    cache: {},
+                    timings: { send: 0, wait: exchange.durationMs, receive: 0 },
+                })),
+            },
+        };
+    }
+
+    private static record(config: InternalAxiosRequestConfig, response?: AxiosResponse, error?: string): void {
+        const startedAt = this.startTimes.get(config) ?? Date.now();
+        const stringHeaders = (headers: object | undefined) =>
+            Object.fromEntries(Object.entries(headers ?? {}).map(([name, value]) => [name, String(value)]));
+
+        let requestBody: unknown = config.data;
+        if (typeof requestBody === 'string') {
+            try {
+                requestBody = JSON.parse(requestBody);
+            } catch {
+                // Keep non-JSON bodies as text
+            }
+        }
+
+        this.exchanges.push({
+            method: (config.method ?? 'get').toUpperCase(),
+            // Resolved the way axios sends it, keeping any path prefix on baseURL
+            url: axios.getUri(config),
+            requestHeaders: stringHeaders(config.headers?.toJSON?.() ?? config.headers),
+            requestBody,
+            status: response?.status ?? 0,
+            statusText: response?.statusText ?? '',
+            responseHeaders: stringHeaders(response?.headers),
+            responseBody: response?.data,
+            startedAt: new Date(startedAt).toISOString(),
+            durationMs: Date.now() - startedAt,
+            ...(error && { error }),
+        });
+    }
+}
@@ -0,0 +1,290 @@
+import { browser } from '@wdio/globals';
+import { Key } from 'webdriverio';
+import type { ChainablePromiseElement } from 'webdriverio';
+
+/**
+ * An element that received focus while tabbing through a page.
+ */
+export interface FocusStop {
+    /** Position in the tab sequence, starting at 1. */
+    position: number;
+    /** Lower-case tag name (e.g. "button"). */
+    tag: string;
+    /** Short CSS-like description (e.g. "a#cart-link", "select[aria-label=...]"). */
+    selector: string;
+    /** Accessible name as seen by the user: aria-label, text or value. */
+    name: string;
+    /** Index of the element in the page's focus registry (see KeyboardUtils). */
+    ref: number;
+}
+
+/**
+ * An element expected in the focus order.
+ */
+export interface FocusTarget {
+    /** Name used in mismatch messages (e.g. "Checkout button"). */
+    name: string;
+    /** CSS selector, or XPath if it starts with "/" or "(". */
+    selector: string;
+}
+
+/**
+ * Result of tabbing once through the whole page.
+ */
+export interface FocusOrder {
+    /** Every element focused, in tab order, without repeats. */
+    stops: FocusStop[];
+    /**
+     * How tabbing ended: 'wrapped' back to the first element, 'left' the
+     * document (focus moved to the browser UI), 'trapped' in a cycle that
+     * does not include the first element, or hit the 'limit'.
+     */
+    end: 'wrapped' | 'left' | 'trapped' | 'limit';
+    /** For 'trapped': the element focus came back to instead of moving on. */
+    trappedAt: FocusStop | null;
+}
+
+declare global {
+    interface Window {
+        /** Elements focused while tabbing, indexed by FocusStop.ref. */
+        __keyboardFocus?: Element[];
+    }
+}
+
+// Tab presses before giving up on reaching the end of a page
+const DEFAULT_MAX_TABS = 100;
+
+/**
+ * Keyboard-only navigation through WebDriver actions: Tab through a page,
+ * record the focus sequence, detect keyboard traps and operate controls
+ * without the mouse.
+ *
+ * Focused elements are kept in a registry in the page (`window.__keyboardFocus`)
+ * so each FocusStop can be matched against selectors after the walk. The
+ * registry starts over with each document.
+ */
+export class KeyboardUtils {
+    /**
+     * Press and release a key, holding the given modifiers.
+     *
+     * @param key A key from webdriverio's Key (e.g. Key.Tab) or a character.
+     * @param modifiers Keys held down while pressing (e.g. Key.Shift).
+     */
+    static async press(key: string, ...modifiers: string[]): Promise<void> {
+        let action = browser.action('key');
+        for (const modifier of modifiers) {
+            action = action.down(modifier);
+        }
+        action = action.down(key).up(key);
+        for (const modifier of [...modifiers].reverse()) {
+            action = action.up(modifier);
+        }
+        await action.perform();
+    }
+
+    /**
+     * Type text one key at a time into the focused element.
+     *
+     * @param text The characters to type.
+     */
+    static async type(text: string): Promise<void> {
+        let action = browser.action('key');
+        for (const char of text) {
+            action = action.down(char).up(char);
+        }
+        await action.perform();
+    }
+
+    /**
+     * Put the sequential focus starting point at the top of the document, so
+     * the next Tab focuses the first tabbable element.
+     *
+     * A temporary, non-tabbable element is focused at the start of <body>;
+     * blurring the active element alone would leave Chrome's starting point
+     * where that element was.
+     */
+    static async resetFocus(): Promise<void> {
+        await browser.execute(() => {
+            document.querySelector('[data-keyboard-start]')?.remove();
+            const start = document.createElement('span');
+            start.tabIndex = -1;
+            start.setAttribute('data-keyboard-start', '');
+            document.body.prepend(start);
+            start.focus();
+        });
+    }
+
+    /**
+     * Describe the element that currently has focus.
+     *
+     * @returns The focused element, or null if focus is on the document body
+     *          (e.g. it moved to the browser UI) or the reset marker.
+     */
+    static async getFocused(): Promise<Omit<FocusStop, 'position'> | null> {
+        return browser.execute(() => {
+            const element = document.activeElement;
+            if (!element || element === document.body || element.hasAttribute('data-keyboard-start')) {
+                return null;
+            }
+
+            const registry = (window.__keyboardFocus ??= []);
+            let ref = registry.indexOf(element);
+            if (ref === -1) {
+                ref = registry.push(element) - 1;
+            }
+
+            const tag = element.tagName.toLowerCase();
+            const label = element.getAttribute('aria-label');
+            let selector = tag;
+            if (element.id) {
+                selector += `#${element.id}`;
+            } else if (label) {
+                selector += `[aria-label="${label}"]`;
+            } else if (element.getAttribute('name')) {
+                selector += `[name="${element.getAttribute('name')}"]`;
+            }
+
+            const text = (element as HTMLElement).innerText?.trim().replace(/\s+/g, ' ') ?? '';
+            const name = label || (tag === 'select' || tag === 'input' ? '' : text) || element.getAttribute('title') || (element as HTMLInputElement).value || '';
+            return { tag, selector, name, ref };
+        });
+    }
+
+    /**
+     * Tab through the whole page from the top and record where focus goes.
+     *
+     * Stops when focus returns to the first element, leaves the document, or
+     * returns to any other element already visited (a keyboard trap: the
+     * rest of the page cannot be reached).
+     *
+     * @param maxTabs Tab presses before giving up (default 100).
+     * @returns The focus sequence and how it ended.
+     */
+    static async recordFocusOrder(maxTabs: number = DEFAULT_MAX_TABS): Promise<FocusOrder> {
+        await this.resetFocus();
+        const stops: FocusStop[] = [];
+
+        for (let i = 0; i < maxTabs; i++) {
+            await this.press(Key.Tab);
+            const focused = await this.getFocused();
+            if (!focused) {
+                return { stops, end: 'left', trappedAt: null };
+            }
+            if (stops.length > 0 && focused.ref === stops[0].ref) {
+                return { stops, end: 'wrapped', trappedAt: null };
+            }
+            const seen = stops.find((stop) => stop.ref === focused.ref);
+            if (seen) {
+                return { stops, end: 'trapped', trappedAt: seen };
+            }
+            stops.push({ position: stops.length + 1, ...focused });
+        }
+        return { stops, end: 'limit', trappedAt: null };
+    }
+
+    /**
+     * Tab from the top of the page until the given element has focus.
+     *
+     * @param element The element to reach.
+     * @param description Name used in errors and logs (e.g. "#checkout-button").
+     * @param maxTabs Tab presses before giving up (default 100).
+     * @returns How many Tab presses it took.
+     * @throws Error if tabbing ends, or loops, without focusing the element.
+     */
+    static async tabTo(element: ChainablePromiseElement, description: string, maxTabs: number = DEFAULT_MAX_TABS): Promise<number> {
+        await element.waitForDisplayed({ timeout: 5000 });
+        await this.resetFocus();
+        const visited: number[] = [];
+
+        for (let presses = 1; presses <= maxTabs; presses++) {
+            await this.press(Key.Tab);
+            if (await element.isFocused()) {
+                console.log(`⌨️ Reached ${description} after ${presses} Tab press(es)`);
+                return presses;
+            }
+
+            const focused = await this.getFocused();
+            if (!focused || visited.includes(focused.ref)) {
+                break;
+            }
+            visited.push(focused.ref);
+        }
+        throw new Error(`${description} cannot be reached with the Tab key`);
+    }
+
+    /**
+     * Compare a recorded focus sequence with the expected one.
+     *
+     * @param order The recorded sequence.
+     * @param expected One target per expected stop, in order.
+     * @returns One message per difference; empty if the order matches.
+     */
+    static async compareFocusOrder(order: FocusOrder, expected: FocusTarget[]): Promise<string[]> {
+        const mismatches: string[] = [];
+        const count = Math.max(order.stops.length, expected.length);
+
+        for (let i = 0; i < count; i++) {
+            const stop = order.stops[i];
+            const target = expected[i];
+            if (!stop) {
+                mismatches.push(`Stop ${i + 1}: expected ${target.name}, but tabbing ended (${order.end})`);
+            } else if (target === undefined) {
+                mismatches.push(`Stop ${i + 1}: unexpected ${this.describe(stop)}`);
+            } else if (!await this.matches(stop, target.selector)) {
+                mismatches.push(`Stop ${i + 1}: expected ${target.name}, got ${this.describe(stop)}`);
+            }
+        }
+        return mismatches;
+    }
+
+    /**
+     * @param stop A recorded stop on the current page.
+     * @param selector A CSS selector, or XPath if it starts with "/" or "(".
+     * @returns true if the stop's element matches the selector.
+     */
+    static async matches(stop: FocusStop, selector: string): Promise<boolean> {
+        return browser.execute(
+            (ref: number, query: string) => {
+                const element = window.__keyboardFocus?.[ref];
+                if (!element) {
+                    return false;
+                }
+                if (!/^[/(]/.test(query)) {
+                    return element.matches(query);
+                }
+                const found = document.evaluate(query, document, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null);
+                for (let i = 0; i < found.snapshotLength; i++) {
+                    if (found.snapshotItem(i) === element) {
+                        return true;
+                    }
+                }
+                return false;
+            },
+            stop.ref,
+            selector
+        );
+    }
+
+    /**
+     * Format a focus sequence for logs and report attachments.
+     *
+     * @param order The recorded sequence.
+     * @returns One line per stop, then how tabbing ended.
+     */
+    static formatFocusOrder(order: FocusOrder): string {
+        const endings: Record<FocusOrder['end'], string> = {
+            wrapped: 'Tab wrapped back to the first element',
+            left: 'Tab moved focus out of the page',
+            trapped: `KEYBOARD TRAP: Tab returned to ${order.trappedAt ? this.describe(order.trappedAt) : 'a visited element'}`,
+            limit: `Stopped after ${order.stops.length} Tab press(es) without reaching the end`,
+        };
+        return [
+            ...order.stops.map((stop) => `${stop.position}. ${this.describe(stop)}`),
+            endings[order.end],
+        ].join('\n');
+    }
+
+    private static describe(stop: FocusStop): string {
+        return stop.name ? `${stop.selector} "${stop.name}"` : stop.selector;
+    }
+}
@@ -0,0 +1,324 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+
+import type { ItemRow } from './db.types';
+import type { CartLine, CartView } from './api.types';
+
+/**
+ * Catalog served by the mock app (same ids and names as the real shop.db).
+ */
+export const MOCK_CATALOG: readonly ItemRow[] = [
+    { id: 1, name: 'Koala', price: 15.0 },
+    { id: 2, name: 'Dog', price: 12.5 },
+    { id: 3, name: 'Cat', price: 10.0 },
+];
+
+const MAX_QUANTITY = 10;
+
+/**
+ * In-memory stand-in for the app-under-test.
+ *
+ * Serves the home, cart and checkout pages with the markup the page objects
+ * expect (#cart-link span, ul > li forms with itemId, the cart table with a
+ * quantity <select>, #checkout-button, .total-price, ...) and the cart API
+ * routes in API_ROUTES. Cart state lives in memory and is lost on stop().
+ *
+ * Started by AppUnderTestService for the `mock` profile, or on its own with
+ * `npm run mock-app` (PORT defaults to 4000).
+ */
+export class MockApp {
+    private server?: http.Server;
+    private readonly cart = new Map<number, number>();
+
+    constructor(private readonly logPath?: string) {}
+
+    /**
+     * Start listening.
+     *
+     * @param port Port to bind on localhost.
+     * @throws Error if the port is already in use.
+     */
+    async start(port: number): Promise<void> {
+        if (this.logPath) {
+            fs.mkdirSync(path.dirname(this.logPath), { recursive: true });
+            this.log(`===== ${new Date().toISOString()} mock app on port ${port} =====`);
+        }
+
+        this.server = http.createServer((req, res) => {
+            this.handle(req, res).catch((error) => this.send(res, 500, 'text/plain', String(error)));
+        });
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(port, () => resolve());
+        });
+        console.log(`🧸 Mock app listening on http://localhost:${port}`);
+    }
+
+    /**
+     * Stop listening and drop all cart state.
+     */
+    async stop(): Promise<void> {
+        if (!this.server) {
+            return;
+        }
+        this.server.closeAllConnections();
+        await new Promise<void>((resolve) => this.server!.close(() => resolve()));
+        this.server = undefined;
+        this.cart.clear();
+        console.log('✅ Mock app stopped');
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const method = req.method ?? 'GET';
+        const route = new URL(req.url ?? '/', 'http://localhost').pathname;
+        const body = method === 'POST' ? await this.readBody(req) : {};
+        const fromForm = (req.headers['content-type'] ?? '').includes('application/x-www-form-urlencoded');
+        const wantsJson = (req.headers.accept ?? '').includes('application/json') && !(req.headers.accept ?? '').includes('text/html');
+
+        res.once('finish', () => this.log(`${method} ${route} ${res.statusCode} ${JSON.stringify(body)}`));
+
+        const image = route.match(/^\/images\/(\d+)\.svg$/);
+        if (method === 'GET' && image) {
+            const item = this.findItem(image[1]);
+            return item
+                ? this.send(res, 200, 'image/svg+xml', productImage(item))
+                : this.send(res, 404, 'text/plain', `Not found: ${route}`);
+        }
+
+        switch (`${method} ${route}`) {
+            case 'GET /':
+                return this.send(res, 200, 'text/html', this.homePage());
+            case 'GET /cart':
+                return wantsJson
+                    ? this.send(res, 200, 'application/json', JSON.stringify(this.cartView()))
+                    : this.send(res, 200, 'text/html', this.cartPage());
+            case 'GET /checkout': {
+                const page = this.checkoutPage();
+                this.cart.clear();
+                return this.send(res, 200, 'text/html', page);
+            }
+            case 'POST /reset-cart':
+                this.cart.clear();
+                return this.ack(res, 'Cart reset');
+            case 'POST /add-to-cart': {
+                const item = this.findItem(body.itemId);
+                if (!item) {
+                    return this.fail(res, 404, `Unknown item: ${body.itemId}`);
+                }
+                this.cart.set(item.id, Math.min((this.cart.get(item.id) ?? 0) + 1, MAX_QUANTITY));
+                if (fromForm) {
+                    return this.redirect(res, '/');
+                }
+                return this.ack(res, 'Item successfully added to cart');
+            }
+            case 'POST /update-cart': {
+                const item = this.findItem(body.itemId);
+                const quantity = Number(body.quantity);
+                if (!item) {
+                    return this.fail(res, 404, `Unknown item: ${body.itemId}`);
+                }
+                if (!Number.isInteger(quantity) || quantity < 0 || quantity > MAX_QUANTITY) {
+                    return this.fail(res, 400, `Quantity must be 0-${MAX_QUANTITY}, got ${body.quantity}`);
+                }
+                if (quantity === 0) {
+                    this.cart.delete(item.id);
+                } else {
+                    this.cart.set(item.id, quantity);
+                }
+                return this.ack(res, 'Cart updated');
+            }
+            default:
+                return this.send(res, 404, 'text/plain', `Not found: ${method} ${route}`);
+        }
+    }
+
+    // ========================================================================
+    // PAGES
+    // ========================================================================
+
+    private homePage(): string {
+        const products = MOCK_CATALOG.map((item) => `
+            <li>
+                <img src="/images/${item.id}.svg" alt="${escape(item.name)}" width="120" height="120">
+                <h2>${escape(item.name)}</h2>
+                <p>${formatPrice(item.price)}</p>
+                <form action="/add-to-cart" method="POST">
+                    <input type="hidden" name="itemId" value="${item.id}">
+                    <button type="submit">Add to Cart</button>
+                </form>
+            </li>`).join('');
+
+        return layout('AI Animal Art', `
+            <header>
+                <h1>AI Animal Art</h1>
+                <a id="cart-link" href="/cart">Cart (<span>${this.cartCount()}</span>)</a>
+            </header>
+            <main>
+                <div class="notification" role="status" hidden></div>
+                <ul>${products}</ul>
+            </main>
+            <script>
+                document.querySelectorAll('form').forEach((form) => form.addEventListener('submit', async (event) => {
+                    event.preventDefault();
+                    const itemId = Number(form.querySelector('input[name="itemId"]').value);
+                    const response = await fetch('/add-to-cart', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ itemId }),
+                    }).catch(() => null);
+                    if (!response || !response.ok) {
+                        return;
+                    }
+                    const result = await response.json();
+                    const badge = document.querySelector('#cart-link span');
+                    badge.textContent = String(Number(badge.textContent) + 1);
+                    const notification = document.querySelector('.notification');
+                    notification.textContent = result.message;
+                    notification.hidden = false;
+                    setTimeout(() => { notification.hidden = true; }, 3000);
+                }));
+            </script>`);
+    }
+
+    private cartPage(): string {
+        const { items, totalPrice } = this.cartView();
+        const rows = items.map((line) => {
+            const options = Array.from({ length: MAX_QUANTITY + 1 }, (_, quantity) =>
+                `<option value="${quantity}"${quantity === line.quantity ? ' selected' : ''}>${quantity}</option>`
+            ).join('');
+            return `
+                <tr>
+                    <td>${escape(line.name)}</td>
+                    <td><select data-item-id="${line.itemId}" aria-label="Quantity for ${escape(line.name)}">${options}</select></td>
+                    <td>${formatPrice(line.price)}</td>
+                    <td>${formatPrice(line.price * line.quantity)}</td>
+                </tr>`;
+        }).join('');
+
+        return layout('Cart', `
+            <main>
+                <h1>Your Cart</h1>
+                <table>
+                    <thead><tr><th>Product</th><th>Quantity</th><th>Price</th><th>Total</th></tr></thead>
+                    <tbody>${rows}</tbody>
+                </table>
+                <h2>Total Price: ${formatPrice(totalPrice)}</h2>
+                <form action="/checkout" method="GET">
+                    <button id="checkout-button" type="submit">Checkout</button>
+                </form>
+                <a id="shop-link" href="/">Back to Shop</a>
+            </main>
+            <script>
+                document.querySelectorAll('select[data-item-id]').forEach((select) => select.addEventListener('change', async () => {
+                    await fetch('/update-cart', {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json' },
+                        body: JSON.stringify({ itemId: Number(select.dataset.itemId), quantity: Number(select.value) }),
+                    });
+                    location.reload();
+                }));
+            </script>`);
+    }
+
+    private checkoutPage(): string {
+        return layout('Checkout', `
+            <main class="checkout-container">
+                <h1>Checkout</h1>
+                <div class="total-price">Total price: ${formatPrice(this.cartView().totalPrice)}</div>
+                <div class="thank-you-message">Thanks for your order!</div>
+                <a href="/">Back to Shop</a>
+            </main>`);
+    }
+
+    // ========================================================================
+    // HELPERS
+    // ========================================================================
+
+    private cartView(): CartView {
+        const items: CartLine[] = MOCK_CATALOG
+            .filter((item) => this.cart.has(item.id))
+            .map((item) => ({ itemId: item.id, name: item.name, price: item.price, quantity: this.cart.get(item.id)! }));
+        const totalPrice = items.reduce((sum, line) => sum + line.price * line.quantity, 0);
+        return { items, totalPrice: Math.round(totalPrice * 100) / 100 };
+    }
+
+    private cartCount(): number {
+        return [...this.cart.values()].reduce((sum, quantity) => sum + quantity, 0);
+    }
+
+    private findItem(itemId: unknown): ItemRow | undefined {
+        return MOCK_CATALOG.find((item) => item.id === Number(itemId));
+    }
+
+    private async readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+        let raw = '';
+        for await (const chunk of req) {
+            raw += chunk;
+        }
+        if (!raw) {
+            return {};
+        }
+        if ((req.headers['content-type'] ?? '').includes('application/json')) {
+            return JSON.parse(raw) as Record<string, unknown>;
+        }
+        return Object.fromEntries(new URLSearchParams(raw));
+    }
+
+    private ack(res: http.ServerResponse, message: string): void {
+        this.send(res, 200, 'application/json', JSON.stringify({ success: true, message }));
+    }
+
+    private fail(res: http.ServerResponse, status: number, message: string): void {
+        this.send(res, status, 'application/json', JSON.stringify({ success: false, message }));
+    }
+
+    private redirect(res: http.ServerResponse, location: string): void {
+        res.writeHead(302, { Location: location }).end();
+    }
+
+    private send(res: http.ServerResponse, status: number, contentType: string, body: string): void {
+        res.writeHead(status, { 'Content-Type': `${contentType}; charset=utf-8` }).end(body);
+    }
+
+    private log(line: string): void {
+        if (this.logPath) {
+            fs.appendFileSync(this.logPath, `${line}\n`);
+        }
+    }
+}
+
+function layout(title: string, content: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>${escape(title)}</title>
+</head>
+<body>${content}
+</body>
+</html>`;
+}
+
+function productImage(item: ItemRow): string {
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="120" height="120">` +
+        `<rect width="120" height="120" fill="#ddd"/>` +
+        `<text x="60" y="65" font-size="16" text-anchor="middle">${escape(item.name)}</text></svg>`;
+}
+
+function formatPrice(price: number): string {
+    return `$${price.toFixed(2)}`;
+}
+
+function escape(text: string): string {
+    return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// `npm run mock-app`: serve the mock app on its own until interrupted
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const app = new MockApp();
+    await app.start(Number(process.env.PORT ?? 4000));
+    process.once('SIGINT', () => app.stop());
+    process.once('SIGTERM', () => app.stop());
+}
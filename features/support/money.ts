@@ -0,0 +1,235 @@
+/**
+ * Currency symbols recognised by Money.parse(), mapped to ISO 4217 codes.
+ */
+const CURRENCY_SYMBOLS: Record<string, string> = {
+    '$': 'USD',
+    '€': 'EUR',
+    '£': 'GBP',
+    '¥': 'JPY',
+};
+
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'JPY'];
+
+// One amount with an optional currency symbol/code on either side, e.g. "$1,234.50", "1.234,50 €", "USD 12".
+// A trailing symbol followed by a digit belongs to the next amount ("2 $10.00").
+const AMOUNT_PATTERN = /([-−]?)([$€£¥]|\b(?:USD|EUR|GBP|JPY)\b)?\s?([-−]?\d[\d.,'   ]*\d|[-−]?\d)\s?((?:[$€£¥]|\b(?:USD|EUR|GBP|JPY)\b)(?!\s?[-−]?\d))?/g;
+
+/**
+ * Options for Money.parse().
+ */
+export interface MoneyParseOptions {
+    /** BCP 47 locale whose group/decimal separators the text uses (default "en-US"). */
+    locale?: string;
+    /** Currency assumed when the text has no symbol or code (default "USD"). */
+    currency?: string;
+}
+
+/**
+ * Thrown when text cannot be parsed as exactly one well-formed amount.
+ */
+export class MoneyParseError extends Error {
+    constructor(
+        public readonly input: string,
+        reason: string
+    ) {
+        super(`Cannot parse '${input}' as money: ${reason}`);
+        this.name = 'MoneyParseError';
+    }
+}
+
+/**
+ * An exact amount of money, held as integer cents so sums and comparisons
+ * never suffer from floating-point rounding.
+ *
+ * Used by the cart and checkout page objects for every displayed price.
+ */
+export class Money {
+    private constructor(
+        /** The amount in the currency's minor unit (cents). */
+        public readonly cents: number,
+        /** ISO 4217 currency code, e.g. "USD". */
+        public readonly currency: string
+    ) {}
+
+    /**
+     * Create from a decimal amount, rounding to the nearest cent.
+     *
+     * @param amount The amount, e.g. 15.5.
+     * @param currency ISO 4217 code (default "USD").
+     */
+    static fromNumber(amount: number, currency: string = 'USD'): Money {
+        if (!Number.isFinite(amount)) {
+            throw new Error(`Not a finite amount: ${amount}`);
+        }
+        return new Money(Math.round(amount * 100), currency);
+    }
+
+    /**
+     * Zero in the given currency.
+     */
+    static zero(currency: string = 'USD'): Money {
+        return new Money(0, currency);
+    }
+
+    /**
+     * Parse a displayed price such as "$1,234.50", "Total Price: $45.99" or
+     * (with locale "de-DE") "1.234,50 €".
+     *
+     * Surrounding label text is ignored. If the label holds other numbers
+     * ("Total (3 items): $17.50"), the amount is the one number with a
+     * currency symbol or code. Thousands separators must group by three, and
+     * there may be at most two decimal places.
+     *
+     * @param text The text to parse.
+     * @param options Locale and default currency.
+     * @returns The parsed amount.
+     * @throws MoneyParseError if the text has no amount, several amounts without exactly one priced in a currency, or a malformed one.
+     */
+    static parse(text: string, options: MoneyParseOptions = {}): Money {
+        const locale = options.locale ?? 'en-US';
+        let matches = [...text.matchAll(AMOUNT_PATTERN)];
+
+        if (matches.length === 0) {
+            throw new MoneyParseError(text, 'no amount found');
+        }
+        if (matches.length > 1) {
+            const withCurrency = matches.filter((match) => match[2] || match[4]);
+            if (withCurrency.length !== 1) {
+                throw new MoneyParseError(text, `found ${matches.length} amounts (${matches.map((match) => match[0].trim()).join(', ')})`);
+            }
+            matches = withCurrency;
+        }
+
+        const [, sign, before, digits, after] = matches[0];
+        if (before && after) {
+            throw new MoneyParseError(text, 'currency given on both sides of the amount');
+        }
+
+        const currency = this.currencyOf(before ?? after) ?? options.currency ?? 'USD';
+        const cents = this.parseCents(text, digits, locale);
+        return new Money(sign ? -cents : cents, currency);
+    }
+
+    /**
+     * @returns The sum of this and another amount.
+     * @throws Error if the currencies differ.
+     */
+    plus(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.cents + other.cents, this.currency);
+    }
+
+    /**
+     * @returns This amount minus another.
+     * @throws Error if the currencies differ.
+     */
+    minus(other: Money): Money {
+        this.assertSameCurrency(other);
+        return new Money(this.cents - other.cents, this.currency);
+    }
+
+    /**
+     * @param quantity Whole-number multiplier (e.g. a cart quantity).
+     * @returns This amount multiplied by the quantity.
+     */
+    times(quantity: number): Money {
+        if (!Number.isInteger(quantity)) {
+            throw new Error(`Quantity must be a whole number, got ${quantity}`);
+        }
+        return new Money(this.cents * quantity, this.currency);
+    }
+
+    /**
+     * @returns true if both amount and currency are equal.
+     */
+    equals(other: Money): boolean {
+        return this.cents === other.cents && this.currency === other.currency;
+    }
+
+    /**
+     * Describe how far this amount is from another, flagging one-cent gaps as
+     * likely rounding errors (e.g. "off by $0.01, likely a rounding error").
+     */
+    describeDifference(other: Money): string {
+        if (this.currency !== other.currency) {
+            return `currency ${this.currency} vs ${other.currency}`;
+        }
+        const gap = Math.abs(this.cents - other.cents);
+        const text = `off by ${new Money(gap, this.currency)}`;
+        return gap === 1 ? `${text}, likely a rounding error` : text;
+    }
+
+    /**
+     * Assert this amount equals the expected one.
+     *
+     * @param expected The expected amount.
+     * @param label What is being compared, used in the message (e.g. "Checkout total").
+     * @throws Error describing both amounts and the difference if they are not equal.
+     */
+    assertEquals(expected: Money, label: string): void {
+        if (!this.equals(expected)) {
+            throw new Error(`${label} is ${this}, expected ${expected} (${this.describeDifference(expected)})`);
+        }
+    }
+
+    /**
+     * @returns The decimal amount, e.g. 15.5 (for display or DB comparisons only).
+     */
+    toNumber(): number {
+        return this.cents / 100;
+    }
+
+    /**
+     * @returns The amount formatted for en-US, e.g. "$1,234.50".
+     */
+    toString(): string {
+        return new Intl.NumberFormat('en-US', { style: 'currency', currency: this.currency }).format(this.toNumber());
+    }
+
+    private assertSameCurrency(other: Money): void {
+        if (this.currency !== other.currency) {
+            throw new Error(`Cannot combine ${this.currency} and ${other.currency} amounts`);
+        }
+    }
+
+    private static currencyOf(token: string | undefined): string | undefined {
+        if (!token) {
+            return undefined;
+        }
+        return CURRENCY_CODES.includes(token) ? token : CURRENCY_SYMBOLS[token];
+    }
+
+    /**
+     * Validate the digits against the locale's separators and convert to cents.
+     */
+    private static parseCents(text: string, digits: string, locale: string): number {
+        const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5);
+        const group = parts.find((part) => part.type === 'group')?.value ?? ',';
+        const decimal = parts.find((part) => part.type === 'decimal')?.value ?? '.';
+
+        const negative = /^[-−]/.test(digits);
+        // Treat the various space characters as the same group separator
+        const normalise = (value: string) => value.replace(/[   ]/g, ' ');
+        const body = normalise(digits.replace(/^[-−]/, ''));
+        const groupChar = normalise(group);
+
+        const [whole, fraction, ...rest] = body.split(decimal);
+        if (rest.length > 0) {
+            throw new MoneyParseError(text, `more than one decimal separator '${decimal}' for ${locale}`);
+        }
+        if (fraction !== undefined && !/^\d{1,2}$/.test(fraction)) {
+            throw new MoneyParseError(text, `expected at most 2 decimal places after '${decimal}' for ${locale}`);
+        }
+
+        const groups = whole.split(groupChar);
+        const wellGrouped = groups.length === 1
+            ? /^\d+$/.test(whole)
+            : /^\d{1,3}$/.test(groups[0]) && groups.slice(1).every((chunk) => /^\d{3}$/.test(chunk));
+        if (!wellGrouped) {
+            throw new MoneyParseError(text, `'${digits}' is not a valid ${locale} amount (group separator '${group}', decimal '${decimal}')`);
+        }
+
+        const cents = Number(groups.join('')) * 100 + Number((fraction ?? '').padEnd(2, '0'));
+        return negative ? -cents : cents;
+    }
+}
@@ -0,0 +1,139 @@
+import { browser } from '@wdio/globals';
+
+/**
+ * A request held by the delay interception: the fields of the BiDi
+ * `network.beforeRequestSent` event that NetworkUtils reads.
+ */
+interface BlockedRequest {
+    isBlocked: boolean;
+    intercepts?: string[];
+    request: { request: string; url: string };
+}
+
+/**
+ * Fault injection for browser traffic via WebDriver BiDi network interception.
+ *
+ * Only requests made by the browser are affected; ApiUtils (axios) calls from
+ * the test process go straight to the app. Every fault stays active until
+ * restoreAll(), which the network.steps.ts After hook calls, so faults never
+ * leak into the next scenario.
+ */
+export class NetworkUtils {
+    private static active = 0;
+    private static delays: Array<{ intercept: string; subscription: string; listener: (params: BlockedRequest) => void }> = [];
+    // Requests held by a delay, keyed by the timer that will continue them
+    private static held = new Map<ReturnType<typeof setTimeout>, string>();
+
+    /**
+     * Answer every request to a path with an error status instead of hitting the app.
+     *
+     * @param urlPath Path relative to baseUrl (e.g. "/add-to-cart").
+     * @param status HTTP status to return (e.g. 500).
+     */
+    static async failWithStatus(urlPath: string, status: number): Promise<void> {
+        const url = this.resolveUrl(urlPath);
+        const mock = await browser.mock(url);
+        mock.respond(
+            { success: false, message: `Injected failure: ${status}` },
+            { statusCode: status, headers: { 'Content-Type': 'application/json' } }
+        );
+        this.active++;
+        console.log(`💥 ${url} will fail with status ${status}`);
+    }
+
+    /**
+     * Make every request to a path fail at the network level (no response).
+     *
+     * @param urlPath Path relative to baseUrl (e.g. "/add-to-cart").
+     */
+    static async abort(urlPath: string): Promise<void> {
+        const url = this.resolveUrl(urlPath);
+        const mock = await browser.mock(url);
+        mock.abort();
+        this.active++;
+        console.log(`💥 ${url} will be aborted`);
+    }
+
+    /**
+     * Hold every request to a path for a while before letting it reach the app.
+     *
+     * WebdriverIO mocks cannot delay a request, so this uses a raw BiDi
+     * intercept and continues each blocked request after the delay.
+     * restoreAll() releases any request still held.
+     *
+     * @param urlPath Path relative to baseUrl (e.g. "/add-to-cart").
+     * @param delayMs How long to hold each request, in milliseconds.
+     */
+    static async delay(urlPath: string, delayMs: number): Promise<void> {
+        const url = this.resolveUrl(urlPath);
+
+        const { subscription } = await browser.sessionSubscribe({ events: ['network.beforeRequestSent'] });
+        const { intercept } = await browser.networkAddIntercept({
+            phases: ['beforeRequestSent'],
+            urlPatterns: [{ type: 'string', pattern: url }],
+        });
+
+        const listener = (params: BlockedRequest) => {
+            if (!params.isBlocked || !params.intercepts?.includes(intercept)) {
+                return;
+            }
+            const timer = setTimeout(() => {
+                this.held.delete(timer);
+                this.release(params.request.request);
+            }, delayMs);
+            this.held.set(timer, params.request.request);
+        };
+        browser.on('network.beforeRequestSent', listener);
+
+        this.delays.push({ intercept, subscription, listener });
+        this.active++;
+        console.log(`🐢 ${url} will be delayed by ${delayMs}ms`);
+    }
+
+    /**
+     * Remove every fault added in this scenario.
+     */
+    static async restoreAll(): Promise<void> {
+        if (this.active === 0) {
+            return;
+        }
+
+        await browser.mockRestoreAll();
+        for (const { listener } of this.delays) {
+            browser.off('network.beforeRequestSent', listener);
+        }
+
+        // Let held requests through now rather than leave them blocked
+        for (const [timer, request] of this.held) {
+            clearTimeout(timer);
+            this.release(request);
+        }
+        this.held.clear();
+
+        for (const { intercept, subscription } of this.delays) {
+            await browser.networkRemoveIntercept({ intercept }).catch(() => {});
+            // By id, so subscriptions WebdriverIO made for its own mocks stay in place
+            await browser.sessionUnsubscribe({ subscriptions: [subscription] }).catch(() => {});
+        }
+
+        this.delays = [];
+        this.active = 0;
+        console.log('✅ Network faults removed');
+    }
+
+    /**
+     * Continue a blocked request. It may be gone if the page navigated or
+     * the scenario ended, so failures are ignored.
+     */
+    private static release(request: string): void {
+        browser.networkContinueRequest({ request }).catch(() => {});
+    }
+
+    private static resolveUrl(urlPath: string): string {
+        const baseUrl = browser.options.baseUrl;
+        if (!baseUrl) {
+            throw new Error('Base URL not defined in wdio.conf.ts');
+        }
+        return new URL(urlPath, baseUrl).href;
+    }
+}
@@ -0,0 +1,167 @@
+import allureReporter from '@wdio/allure-reporter';
+
+/**
+ * One failed soft assertion.
+ */
+export interface SoftFailure {
+    message: string;
+    /** Text of the step that recorded the failure, if known. */
+    step?: string;
+    /** Ticket for an accepted, already-tracked failure (e.g. "A11Y-42"). */
+    knownIssue?: string;
+}
+
+/**
+ * Options for a single soft assertion.
+ */
+export interface SoftAssertOptions {
+    /**
+     * Ticket id for a failure that is already tracked. Known issues are
+     * reported but do not fail the scenario.
+     */
+    knownIssue?: string;
+}
+
+/**
+ * Outcome of a scenario's soft assertions.
+ */
+export interface SoftAssertSummary {
+    /** Failures that should fail the scenario. */
+    failures: SoftFailure[];
+    /** Failures tied to a known issue. */
+    knownIssues: SoftFailure[];
+}
+
+/**
+ * Scenario-scoped soft assertions.
+ *
+ * A soft assertion records a failure instead of throwing, so a step can report
+ * every problem it finds and the scenario carries on. The soft.assert.steps.ts
+ * hooks reset the collector before each scenario and, afterwards, attach the
+ * results to Allure and fail the scenario if any failure is not a known issue.
+ *
+ * Use a hard check (throw / expect) when later steps cannot run meaningfully
+ * after the failure; use a soft one when they can.
+ */
+export class SoftAssert {
+    private static failures: SoftFailure[] = [];
+    private static currentStep?: string;
+
+    /**
+     * Forget all recorded failures. Call at the start of each scenario.
+     */
+    static reset(): void {
+        this.failures = [];
+        this.currentStep = undefined;
+    }
+
+    /**
+     * Record which step is running, so failures can name it.
+     *
+     * @param stepText The Gherkin step text.
+     */
+    static setCurrentStep(stepText: string): void {
+        this.currentStep = stepText;
+    }
+
+    /**
+     * Record a failure if the condition is false.
+     *
+     * @param condition What should hold.
+     * @param message Describes the failure.
+     * @param options Optional known-issue ticket.
+     * @returns The condition, so callers can branch on it.
+     */
+    static check(condition: boolean, message: string, options: SoftAssertOptions = {}): boolean {
+        if (!condition) {
+            this.fail(message, options);
+        }
+        return condition;
+    }
+
+    /**
+     * Run a hard assertion (e.g. `expect(...)` or a page object's assert
+     * method) and record its error instead of letting it throw.
+     *
+     * @param assertion The assertion to run.
+     * @param options Optional known-issue ticket.
+     * @returns true if the assertion passed.
+     */
+    static async verify(assertion: () => unknown | Promise<unknown>, options: SoftAssertOptions = {}): Promise<boolean> {
+        try {
+            await assertion();
+            return true;
+        } catch (error) {
+            this.fail(error instanceof Error ? error.message : String(error), options);
+            return false;
+        }
+    }
+
+    /**
+     * Record a failure unconditionally.
+     *
+     * @param message Describes the failure.
+     * @param options Optional known-issue ticket.
+     */
+    static fail(message: string, options: SoftAssertOptions = {}): void {
+        const failure: SoftFailure = {
+            message,
+            ...(this.currentStep && { step: this.currentStep }),
+            ...(options.knownIssue && { knownIssue: options.knownIssue }),
+        };
+        this.failures.push(failure);
+
+        if (failure.knownIssue) {
+            console.warn(`⚠️ Known issue ${failure.knownIssue}: ${message}`);
+        } else {
+            console.error(`❌ Soft assertion failed: ${message}`);
+        }
+    }
+
+    /**
+     * Failures recorded since the last reset(), split into real failures and
+     * known issues.
+     */
+    static getSummary(): SoftAssertSummary {
+        return {
+            failures: this.failures.filter((failure) => !failure.knownIssue),
+            knownIssues: this.failures.filter((failure) => failure.knownIssue),
+        };
+    }
+
+    /**
+     * Throw if any failure without a known issue has been recorded.
+     *
+     * @throws Error listing every such failure.
+     */
+    static assertAll(): void {
+        const { failures } = this.getSummary();
+        if (failures.length > 0) {
+            throw new Error(`${failures.length} soft assertion(s) failed:\n${failures.map((failure) => this.format(failure)).join('\n')}`);
+        }
+    }
+
+    /**
+     * Attach the recorded failures to the Allure report and label known
+     * issues with their tickets. Does nothing if nothing failed.
+     */
+    static attachToReport(): void {
+        if (this.failures.length === 0) {
+            return;
+        }
+
+        allureReporter.addAttachment('Soft Assertions', this.failures.map((failure) => this.format(failure)).join('\n'), 'text/plain');
+
+        const tickets = new Set(this.getSummary().knownIssues.map((failure) => failure.knownIssue!));
+        for (const ticket of tickets) {
+            allureReporter.addIssue(ticket);
+            allureReporter.addArgument('Known Issue', ticket);
+        }
+    }
+
+    private static format(failure: SoftFailure): string {
+        const prefix = failure.knownIssue ? `[known issue ${failure.knownIssue}] ` : '';
+        const step = failure.step ? ` (step: ${failure.step})` : '';
+        return `✖ ${prefix}${failure.message}${step}`;
+    }
+}
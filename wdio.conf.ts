@@ -1,9 +1,14 @@
-// Node.js built-in modules
-import * as path from 'path'; // Utilities for handling file paths reliably across OSs (Windows/Linux)
-import * as fs from 'fs';     // File System module, used here to check if specific files exist on disk
+// Typed environment profiles (local, codespaces, ci, custom)
+// Precedence: CLI flags > env vars > wdio.profiles.json > built-in profile defaults
+import { ConfigUtils } from './features/support/config.utils';
+import AppUnderTestService from './features/support/app.service';
+import A11yReportService from './features/support/a11y.service';
+import type { ApiClientOptions } from './features/support/api.types';
 
-// accounting for dbPath as a custom setting with '&' addition
-export const config: WebdriverIO.Config & { dbPath: string } = {
+const environment = ConfigUtils.resolve();
+
+// accounting for dbPath, profile and api as custom settings with '&' addition
+export const config: WebdriverIO.Config & { dbPath: string, profile: string, api: ApiClientOptions, a11yBaseline: string, a11yAudit: boolean, dbExclusive: boolean } = {
     //
     // ====================
     // Runner Configuration
@@ -11,13 +16,28 @@ export const config: WebdriverIO.Config & { dbPath: string } = {
     // WebdriverIO supports running e2e tests as well as unit and component tests.
     runner: 'local',
     tsConfigPath: './tsconfig.json',
-    baseUrl: 'http://localhost:3000',
-    // DYNAMIC DB PATH
-    // Logic: Check if the 'app-under-test' child folder exists (Codespaces/CI).
-    // If yes, use it. If no, assume we are local and use the sibling folder.
-    dbPath: fs.existsSync(path.join(process.cwd(), 'app-under-test', 'shop.db'))
-        ? path.join(process.cwd(), 'app-under-test', 'shop.db')
-        : path.join(process.cwd(), '../test-automation-foundations-728391/shop.db'),
+    baseUrl: environment.baseUrl,
+    // DB PATH and PROFILE
+    // Resolved by ConfigUtils; startup fails fast if shop.db does not exist.
+    dbPath: environment.dbPath,
+    profile: environment.profile,
+    // Whether each worker has shop.db to itself (its own copy, or one worker at a time).
+    // @restore-db scenarios and fixtures refuse to run without it.
+    dbExclusive: environment.isolateWorkers || environment.maxInstances === 1,
+    // API CLIENT POLICY
+    // Timeout, retry/backoff and contract settings read by ApiUtils in each worker.
+    api: {
+        timeout: environment.apiTimeout,
+        retries: environment.apiRetries,
+        retryDelay: environment.apiRetryDelay,
+        readyTimeout: environment.appReadyTimeout,
+        strictContracts: environment.apiStrictContracts,
+    },
+    // ACCESSIBILITY BASELINE AND AUTOMATIC AUDITS
+    // Known violations that do not fail the accessibility steps ('' for none).
+    // a11yAudit audits every scenario at page-object checkpoints, not just @a11y ones.
+    a11yBaseline: environment.a11yBaseline,
+    a11yAudit: environment.a11yAudit,
     
     //
     // ==================
@@ -57,7 +77,7 @@ export const config: WebdriverIO.Config & { dbPath: string } = {
     // and 30 processes will get spawned. The property handles how many capabilities
     // from the same test should run tests.
     //
-    maxInstances: 10,
+    maxInstances: environment.maxInstances,
     //
     // If you have trouble getting all important capabilities together, check out the
     // Sauce Labs platform configurator - a great tool to configure your capabilities:
@@ -66,9 +86,10 @@ export const config: WebdriverIO.Config & { dbPath: string } = {
     capabilities: [{
         browserName: 'chrome',
         'goog:chromeOptions': {
-            // LOGIC: Use headless mode if in CI, Codespaces, or manually requested.
+            // LOGIC: Headless comes from the resolved profile (ci/codespaces default to on,
+            // HEADLESS env or --headless/--headed override it).
             // We use '--headless=new' which is the modern standard for Chrome 109+.
-            args: (process.env.CI || process.env.CODESPACES || process.argv.includes('--headless'))
+            args: environment.headless
                 ? ['--headless=new', '--disable-gpu', '--disable-dev-shm-usage', '--no-sandbox']
                 : ['--disable-gpu', '--disable-dev-shm-usage', '--no-sandbox']
         }
@@ -108,7 +129,7 @@ export const config: WebdriverIO.Config & { dbPath: string } = {
     // baseUrl: 'http://localhost:8080',
     //
     // Default timeout for all waitFor* commands.
-    waitforTimeout: 10000,
+    waitforTimeout: environment.waitforTimeout,
     //
     // Default timeout in milliseconds for request
     // if browser driver or grid doesn't send response
@@ -121,6 +142,29 @@ export const config: WebdriverIO.Config & { dbPath: string } = {
     // Services take over a specific job you don't want to take care of. They enhance
     // your test setup with almost no effort. Unlike plugins, they don't add new
     // commands. Instead, they hook themselves up into the test process.
+
+    // APP-UNDER-TEST LIFECYCLE
+    // onPrepare starts the app from appDir (unless it is already up) and polls baseUrl
+    // until healthy; onComplete stops it. Disabled unless the profile sets startApp.
+    // With isolateWorkers, each worker instead gets its own app instance, port and
+    // shop.db copy, wired into browser.options.baseUrl / dbPath.
+    // The mock profile serves the in-memory MockApp (mock.app.ts) instead.
+    services: [
+        [AppUnderTestService, {
+            startApp: environment.startApp,
+            baseUrl: environment.baseUrl,
+            dbPath: environment.dbPath,
+            appDir: environment.appDir,
+            command: environment.appStartCommand,
+            readyTimeout: environment.appReadyTimeout,
+            isolateWorkers: environment.isolateWorkers,
+            workerBasePort: environment.workerBasePort,
+            mock: environment.profile === 'mock'
+        }],
+        // ACCESSIBILITY REPORTS
+        // Merges the automatic audit results into one report per page in logs/a11y/.
+        [A11yReportService, {}]
+    ],
     
     //services: [
         //['visual', {
@@ -188,9 +232,10 @@ export const config: WebdriverIO.Config & { dbPath: string } = {
         // <boolean> fail if there are any undefined or pending steps
         strict: false,
         // <string> (expression) only execute the features or scenarios with tags matching the expression
-        tagExpression: '',
+        // The mock profile has no shop.db, so scenarios that query it are skipped
+        tagExpression: environment.profile === 'mock' ? 'not @db' : '',
         // <number> timeout for step definitions
-        timeout: 60000,
+        timeout: environment.stepTimeout,
         // <boolean> Enable this config to treat undefined definitions as warnings.
         ignoreUndefinedDefinitions: false
     },